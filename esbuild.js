@@ -23,13 +23,21 @@ const buildOptions = {
     }),
 };
 
+/** @type {import('esbuild').BuildOptions} */
+const cliBuildOptions = {
+    ...buildOptions,
+    entryPoints: ['src/cli.ts'],
+    outfile: 'dist/cli.js',
+    external: [],
+};
+
 async function main() {
     if (watch) {
-        const ctx = await esbuild.context(buildOptions);
-        await ctx.watch();
+        const contexts = await Promise.all([buildOptions, cliBuildOptions].map(options => esbuild.context(options)));
+        await Promise.all(contexts.map(ctx => ctx.watch()));
         console.log('[esbuild] Watching for changes...');
     } else {
-        await esbuild.build(buildOptions);
+        await Promise.all([esbuild.build(buildOptions), esbuild.build(cliBuildOptions)]);
         console.log('[esbuild] Build complete');
     }
 }
@@ -0,0 +1,389 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { classNameFromFileName, CoreSettings, DEFAULT_SETTINGS, generateCSharp } from './core';
+import { calculateNamespace } from './namespace';
+import { CONFIG_FILE_NAME, findConfigFile, readSettingsFile, SettingValues } from './profiles';
+import { collectDeclaredTypes, DeclaredType } from './typeNames';
+
+const USAGE = `Usage: json2csharp [options] <file or glob>...
+
+Generates C# types from JSON samples or JSON Schema files.
+Each input file becomes its own root type named after the file (order-response.json → OrderResponse).
+
+Options:
+  -o, --out <path>        Output .cs file, or a directory for several roots or outputMode filePerType
+                          (default: print to stdout)
+  -n, --namespace <name>  Namespace to declare; with namespaceMode withNamespace and no name,
+                          it is calculated from the nearest .csproj of the output path
+  -r, --root <name>       Root class name (single input or --merge)
+  -m, --merge             Merge all inputs as samples of one root type
+  -c, --config <file>     JSON settings file, e.g. .vscode/settings.json ("json2csharp." prefix optional)
+  -p, --profile <name>    Settings profile from json2csharp.json, the --config file or its "profiles"
+  --<setting> <value>     Any json2csharp setting, e.g. --typeStyle recordPositional,
+                          --nullableReferenceTypes nullable, --sealedTypes, --no-inferDateTimes,
+                          --decimalPropertyPatterns "*price*,*amount*", --typeNameMap '{"lines":"OrderLine"}'
+  -h, --help              Show this help
+
+Settings are read from the nearest json2csharp.json at or above the output directory (the working
+directory when printing), then --config, then --profile, then the command line. They take precedence
+over the target project's <Nullable> and Newtonsoft.Json reference; the project's C# version always
+limits the output.`;
+
+/**
+ * Settings the CLI accepts besides the core settings
+ */
+const CLI_SETTINGS = ['namespaceMode'] as const;
+
+type CliSettingValues = Partial<CoreSettings> & { namespaceMode?: string };
+
+/**
+ * Manifest entry of a setting with a fixed set of values (for arrays, of each item)
+ */
+interface SettingSchema {
+    enum?: string[];
+    items?: { enum?: string[] };
+}
+
+/**
+ * Values of the settings that take one of a fixed set (for arrays, each item), read from the extension manifest
+ */
+const ALLOWED_VALUES: Record<string, readonly string[]> = Object.fromEntries(
+    Object.entries(require('../package.json').contributes.configuration.properties as Record<string, SettingSchema>)
+        .map(([key, schema]) => [key.replace(/^json2csharp\./, ''), schema.enum ?? schema.items?.enum])
+        .filter((entry): entry is [string, string[]] => entry[1] !== undefined)
+);
+
+/**
+ * Parsed command line
+ */
+interface CliArguments {
+    patterns: string[];
+    out?: string;
+    namespace?: string;
+    rootClassName?: string;
+    merge: boolean;
+    configFile?: string;
+    profile?: string;
+    settings: CliSettingValues;
+    help: boolean;
+}
+
+/**
+ * Invalid command line or input, reported without a stack trace
+ */
+class CliError extends Error { }
+
+/**
+ * Convert a command line (or settings file) value to the type of the setting's default
+ */
+function convertSettingValue(key: string, raw: unknown): unknown {
+    const defaultValue: unknown = (DEFAULT_SETTINGS as unknown as Record<string, unknown>)[key];
+    if (typeof raw !== 'string') {
+        return raw;
+    }
+    if (typeof defaultValue === 'boolean') {
+        if (raw !== 'true' && raw !== 'false') {
+            throw new CliError(`--${key} expects true or false, got "${raw}"`);
+        }
+        return raw === 'true';
+    }
+    if (typeof defaultValue === 'number') {
+        const value = Number(raw);
+        if (!Number.isFinite(value)) {
+            throw new CliError(`--${key} expects a number, got "${raw}"`);
+        }
+        return value;
+    }
+    if (Array.isArray(defaultValue)) {
+        return raw.split(',').map(item => item.trim()).filter(item => item);
+    }
+    if (typeof defaultValue === 'object') {
+        try {
+            return JSON.parse(raw);
+        } catch {
+            throw new CliError(`--${key} expects a JSON object, got "${raw}"`);
+        }
+    }
+    return raw;
+}
+
+/**
+ * Convert a command line (or settings file) value and check it against the setting's allowed values
+ */
+function parseSettingValue(key: string, raw: unknown): unknown {
+    const value = convertSettingValue(key, raw);
+    const allowed = ALLOWED_VALUES[key];
+    const invalid = allowed && (Array.isArray(value) ? value : [value]).find(item => !allowed.includes(item as string));
+    if (invalid !== undefined) {
+        throw new CliError(`--${key} expects ${Array.isArray(value) ? 'a comma-separated list of' : 'one of'} ${allowed.join(', ')}, got "${String(invalid)}"`);
+    }
+    return value;
+}
+
+function isSettingKey(key: string): boolean {
+    return key in DEFAULT_SETTINGS || (CLI_SETTINGS as readonly string[]).includes(key);
+}
+
+function parseArguments(argv: string[]): CliArguments {
+    const args: CliArguments = { patterns: [], merge: false, settings: {}, help: false };
+    const settings = args.settings as Record<string, unknown>;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('-') || arg === '-') {
+            args.patterns.push(arg);
+            continue;
+        }
+        const [flag, inlineValue] = arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+        const takeValue = (): string => {
+            if (inlineValue !== undefined) {
+                return inlineValue;
+            }
+            if (i + 1 >= argv.length) {
+                throw new CliError(`${flag} expects a value`);
+            }
+            return argv[++i];
+        };
+
+        switch (flag) {
+            case '-o': case '--out': args.out = takeValue(); continue;
+            case '-n': case '--namespace': args.namespace = takeValue(); continue;
+            case '-r': case '--root': args.rootClassName = takeValue(); continue;
+            case '-c': case '--config': args.configFile = takeValue(); continue;
+            case '-p': case '--profile': args.profile = takeValue(); continue;
+            case '-m': case '--merge': args.merge = true; continue;
+            case '-h': case '--help': args.help = true; continue;
+        }
+
+        const negated = flag.startsWith('--no-');
+        const key = flag.replace(/^--(?:no-)?/, '').replace(/^json2csharp\./, '');
+        if (!flag.startsWith('--') || !isSettingKey(key)) {
+            throw new CliError(`Unknown option ${flag}`);
+        }
+        if (typeof (DEFAULT_SETTINGS as unknown as Record<string, unknown>)[key] === 'boolean') {
+            // Boolean settings work as switches: --sealedTypes, --no-sealedTypes, --sealedTypes=false
+            settings[key] = negated ? false : inlineValue === undefined || parseSettingValue(key, inlineValue);
+        } else if (negated) {
+            throw new CliError(`--no-${key} is only valid for true/false settings`);
+        } else {
+            settings[key] = parseSettingValue(key, takeValue());
+        }
+    }
+    return args;
+}
+
+/**
+ * The settings the CLI understands from the values of a settings file or profile
+ */
+function cliSettings(values: SettingValues): CliSettingValues {
+    const settings: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(values)) {
+        if (isSettingKey(key)) {
+            settings[key] = parseSettingValue(key, value);
+        }
+    }
+    return settings;
+}
+
+/**
+ * Combine the settings of the nearest json2csharp.json, the --config file, the profile and the command line,
+ * later ones winning
+ */
+function resolveSettings(args: CliArguments): CliSettingValues {
+    const outDirectory = path.resolve(args.out?.toLowerCase().endsWith('.cs') ? path.dirname(args.out) : args.out ?? '.');
+    const configFile = findConfigFile(path.join(outDirectory, CONFIG_FILE_NAME));
+    const files = [configFile, args.configFile].filter((file): file is string => file !== undefined).map(readSettingsFile);
+    const profiles: Record<string, SettingValues> = Object.assign({}, ...files.map(file => file.profiles));
+    if (args.profile !== undefined && !(args.profile in profiles)) {
+        const names = Object.keys(profiles);
+        throw new CliError(`Unknown profile "${args.profile}"${names.length > 0 ? ` (available: ${names.join(', ')})` : ''}`);
+    }
+    return Object.assign(
+        {},
+        ...files.map(file => cliSettings(file.settings)),
+        args.profile !== undefined ? cliSettings(profiles[args.profile]) : {},
+        args.settings
+    );
+}
+
+/**
+ * Regular expression for a glob: `**` matches any number of directories, `*` and `?` stay within one
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += pattern[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function listFiles(directory: string): string[] {
+    return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+        const fullPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            return entry.name === 'node_modules' || entry.name.startsWith('.') ? [] : listFiles(fullPath);
+        }
+        return [fullPath];
+    });
+}
+
+/**
+ * Expand the input patterns into files, in the given order, without duplicates
+ */
+function expandInputs(patterns: string[]): string[] {
+    const files: string[] = [];
+    for (const pattern of patterns) {
+        const normalized = pattern.replace(/\\/g, '/');
+        if (!/[*?]/.test(normalized)) {
+            if (!fs.existsSync(pattern)) {
+                throw new CliError(`File not found: ${pattern}`);
+            }
+            files.push(path.resolve(pattern));
+            continue;
+        }
+        // Walk from the directory before the first wildcard
+        const base = normalized.slice(0, normalized.search(/[*?]/)).replace(/[^/]*$/, '') || './';
+        const matcher = globToRegExp(path.resolve(normalized).replace(/\\/g, '/'));
+        const matches = fs.existsSync(base)
+            ? listFiles(base).map(file => path.resolve(file)).filter(file => matcher.test(file.replace(/\\/g, '/'))).sort()
+            : [];
+        if (matches.length === 0) {
+            throw new CliError(`No files match ${pattern}`);
+        }
+        files.push(...matches);
+    }
+    return [...new Set(files)];
+}
+
+/**
+ * A root type to generate and where its code goes
+ */
+interface OutputJob {
+    rootClassName: string;
+    inputs: string[];
+    /** Output file or directory; undefined for stdout */
+    out?: string;
+}
+
+function planJobs(args: CliArguments, inputs: string[], outputMode: string): OutputJob[] {
+    const rootNames = args.merge || inputs.length === 1
+        ? [args.rootClassName ?? (args.merge ? DEFAULT_SETTINGS.rootClassName : classNameFromFileName(inputs[0]))]
+        : inputs.map(input => classNameFromFileName(input));
+    if (args.rootClassName && !args.merge && inputs.length > 1) {
+        throw new CliError('--root needs a single input or --merge');
+    }
+    rootNames.forEach((name, index) => {
+        if (!name || !/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name)) {
+            throw new CliError(`No valid C# class name for ${inputs[index]}; use --root`);
+        }
+    });
+
+    const toFile = args.out?.toLowerCase().endsWith('.cs');
+    if (toFile && (rootNames.length > 1 || outputMode === 'filePerType')) {
+        throw new CliError('--out must be a directory for several inputs or outputMode filePerType');
+    }
+    if (!args.out && outputMode === 'filePerType') {
+        throw new CliError('outputMode filePerType needs --out <directory>');
+    }
+    return rootNames.map((name, index) => ({
+        rootClassName: name!,
+        inputs: args.merge ? inputs : [inputs[index]],
+        out: args.out,
+    }));
+}
+
+function writeOutput(file: string, code: string): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${code}\n`);
+    process.stderr.write(`Wrote ${path.relative(process.cwd(), file) || file}\n`);
+}
+
+/**
+ * Run the CLI and return the exit code: 0 on success, 1 on conversion errors, 2 on usage errors
+ */
+export async function main(argv: string[]): Promise<number> {
+    let args: CliArguments;
+    let inputs: string[];
+    let jobs: OutputJob[];
+    let settings: CliSettingValues;
+    try {
+        args = parseArguments(argv);
+        if (args.help || args.patterns.length === 0) {
+            process.stdout.write(`${USAGE}\n`);
+            return args.help ? 0 : 2;
+        }
+        settings = resolveSettings(args);
+        inputs = expandInputs(args.patterns);
+        jobs = planJobs(args, inputs, settings.outputMode ?? DEFAULT_SETTINGS.outputMode);
+    } catch (error) {
+        process.stderr.write(`json2csharp: ${error instanceof Error ? error.message : String(error)}\n`);
+        return 2;
+    }
+
+    if (args.out) {
+        // Namespace calculation looks for the project from the output directory, so it must exist
+        fs.mkdirSync(args.out.toLowerCase().endsWith('.cs') ? path.dirname(path.resolve(args.out)) : args.out, { recursive: true });
+    }
+    const { namespaceMode, ...coreSettings } = settings;
+    // Types generated for earlier roots are existing types for later ones, so shared shapes don't collide
+    const declaredTypes = new Map<string, DeclaredType>();
+    const printed: string[] = [];
+
+    for (const job of jobs) {
+        const targetFile = job.out && !job.out.toLowerCase().endsWith('.cs')
+            ? path.resolve(job.out, `${job.rootClassName}.cs`)
+            : path.resolve(job.out ?? `${job.rootClassName}.cs`);
+        const namespace = args.namespace ?? (namespaceMode === 'withNamespace' ? calculateNamespace(targetFile) : undefined);
+
+        try {
+            const texts = job.inputs.map(input => fs.readFileSync(input, 'utf8'));
+            const { files, repairs } = await generateCSharp({
+                texts,
+                settings: coreSettings,
+                rootClassName: job.rootClassName,
+                namespace,
+                targetPath: targetFile,
+                existingTypes: new Map(declaredTypes),
+            });
+            if (repairs.length > 0) {
+                process.stderr.write(`${job.inputs.map(input => path.basename(input)).join(', ')}: repaired JSON (${repairs.join(', ')})\n`);
+            }
+
+            for (const file of files) {
+                collectDeclaredTypes(file.code).forEach((type, name) => declaredTypes.set(name, type));
+                if (!job.out) {
+                    printed.push(file.code);
+                } else if (files.length === 1 && job.out.toLowerCase().endsWith('.cs')) {
+                    writeOutput(path.resolve(job.out), file.code);
+                } else {
+                    writeOutput(path.resolve(job.out, `${file.typeName}.cs`), file.code);
+                }
+            }
+        } catch (error) {
+            process.stderr.write(`json2csharp: ${job.inputs.join(', ')}: ${error instanceof Error ? error.message : String(error)}\n`);
+            return 1;
+        }
+    }
+
+    if (printed.length > 0) {
+        process.stdout.write(`${printed.join('\n\n')}\n`);
+    }
+    return 0;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
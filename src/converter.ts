@@ -1,12 +1,33 @@
-import * as vscode from 'vscode';
+import { ObservedValues, observeValues, valueAttributes } from './dataAnnotations';
+import { applyDictionaryInference, CLASS_MARKER, DictionaryMode } from './dictionaries';
+import { collectExamples, escapeXml, formatExample, summaryStub } from './docComments';
+import { applyStringEnums, collectEnumCandidates, EnumMember, enumMemberName, enumMembers } from './enums';
+import { applyNamingPolicy, NamingPolicy, NEWTONSOFT_STRATEGIES, singularTypeName, SYSTEM_TEXT_JSON_POLICIES } from './naming';
+import { applyPolymorphism, extractPolymorphicArrays } from './polymorphism';
+import { reduceSamples } from './sampling';
+import { buildSerializerContext, serializableTypeNames } from './serializerContext';
+import { buildBooleanStringConverter, collectStringTypes, StringTypeKind } from './stringTypes';
+import { arrangeTypes, TypeNesting, TypeOrder } from './typeLayout';
+import { PropertyModel, parseTypeModels, renderTypeModels, TypeModel } from './typeModel';
+import { DeclaredType, resolveTypeNameConflicts, splitTypeDeclarations, uniqueTypeName } from './typeNames';
 
 // Type imports only (stripped at runtime, no code is loaded)
 import type {
+    ArrayType as ArrayTypeType,
+    ClassProperty as ClassPropertyType,
+    ClassType as ClassTypeType,
+    FetchingJSONSchemaStore as FetchingJSONSchemaStoreType,
     getOptionValues as GetOptionValuesType,
     InputData as InputDataType,
     jsonInputForTargetLanguage as JsonInputType,
+    JSONSchemaInput as JSONSchemaInputType,
+    MapType as MapTypeType,
+    Name as NameType,
     quicktype as QuicktypeType,
-    RenderContext as RenderContextType
+    RenderContext as RenderContextType,
+    Sourcelike,
+    Type as TypeType,
+    UnionType as UnionTypeType
 } from 'quicktype-core';
 import type {
     cSharpOptions as CSharpOptionsType,
@@ -17,12 +38,16 @@ import type {
     systemTextJsonCSharpOptions as SystemTextJsonCSharpOptionsType,
     SystemTextJsonCSharpRenderer as SystemTextJsonCSharpRendererType
 } from 'quicktype-core/dist/language/CSharp';
+import type { inferTransformedStringTypeKindForString as InferStringFormatType } from 'quicktype-core/dist/attributes/StringTypes';
+import type { DefaultDateTimeRecognizer as DefaultDateTimeRecognizerType } from 'quicktype-core/dist/DateTime';
 
 // Lazy-loaded quicktype-core module cache
 let quicktypeCore: {
+    FetchingJSONSchemaStore: typeof FetchingJSONSchemaStoreType;
     getOptionValues: typeof GetOptionValuesType;
     InputData: typeof InputDataType;
     jsonInputForTargetLanguage: typeof JsonInputType;
+    JSONSchemaInput: typeof JSONSchemaInputType;
     quicktype: typeof QuicktypeType;
 } | null = null;
 
@@ -36,6 +61,11 @@ let csharpLang: {
     SystemTextJsonCSharpRenderer: typeof SystemTextJsonCSharpRendererType;
 } | null = null;
 
+let stringFormats: {
+    inferTransformedStringTypeKindForString: typeof InferStringFormatType;
+    DefaultDateTimeRecognizer: typeof DefaultDateTimeRecognizerType;
+} | null = null;
+
 /**
  * Lazy-load quicktype-core modules on first use
  */
@@ -51,12 +81,142 @@ function loadQuicktypeModules() {
     return { quicktypeCore: quicktypeCore!, csharpLang: csharpLang! };
 }
 
+/**
+ * Lazy-load quicktype's string format inference, which tells sampled strings apart when arrays are reduced
+ */
+function loadStringFormats() {
+    if (!stringFormats) {
+        stringFormats = {
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            ...require('quicktype-core/dist/attributes/StringTypes'),
+            // eslint-disable-next-line @typescript-eslint/no-require-imports
+            ...require('quicktype-core/dist/DateTime'),
+        };
+    }
+    return stringFormats!;
+}
+
+/**
+ * Let pending events (such as a cancellation request) run, then stop if the conversion was cancelled
+ */
+async function checkCancellation(signal: AbortSignal | undefined): Promise<void> {
+    if (!signal) {
+        return;
+    }
+    await new Promise(resolve => setImmediate(resolve));
+    signal.throwIfAborted();
+}
+
+/**
+ * Naming of generated types beyond quicktype's defaults
+ */
+interface TypeNaming {
+    /** JSON path (`orders.lines`) or key (`lines`) → type name */
+    typeNameMap: Record<string, string>;
+    /** Name collection element types with English singularization (`categories` → `Category`, `data` → `DataItem`) */
+    singularize: boolean;
+}
+
+/**
+ * Where a named type first appears in the JSON, used to name it
+ */
+interface TypeNameSource {
+    /** JSON key of the property (or the top-level name) holding the type */
+    key: string;
+    /** Dot-separated keys from the top level; arrays and maps add no segment */
+    path: string;
+    /** True when the type is the element of an array or the value of a map */
+    isElement: boolean;
+    /** Top-level type the path starts from */
+    topLevel: string;
+}
+
+/**
+ * Property types inferred from the sample values, and the members of every enum in the output
+ */
+interface SampleInference {
+    /**
+     * Top-level name → property path → C# type of formatted strings (`Guid`, `DateOnly`, `long` for integer strings, ...);
+     * undefined for schema input, where quicktype's format types are kept
+     */
+    stringTypes?: Map<string, Map<string, string>>;
+    /** Top-level name → property path → distinct JSON values of string enums */
+    enumCandidates: Map<string, Map<string, string[]>>;
+    /** Enum name → members, filled in by the renderer */
+    enumMembers: Map<string, EnumMember[]>;
+    /** Top-level name → property path → first sample value as JSON, for `<example>` doc comments */
+    examples?: Map<string, Map<string, string>>;
+    /** Top-level name → property path → observed values, for validation attributes */
+    observedValues?: Map<string, Map<string, ObservedValues>>;
+    /** Top-level name → property path → numeric values seen, for `integerType`: `auto` */
+    numberStats?: Map<string, Map<string, NumberStats>>;
+}
+
+/**
+ * Data annotation validation attributes on generated properties
+ */
+interface DataAnnotationSettings {
+    /** `[Range]` and `[StringLength]` from the observed numbers and string lengths */
+    bounds: boolean;
+}
+
+/**
+ * Number types of generated properties
+ */
+interface NumberTyping {
+    integerType: IntegerType;
+    /** JSON keys or C# names of properties that become decimal (`*price*`) */
+    decimalPatterns: RegExp[];
+}
+
+/**
+ * Doc comments of generated properties
+ */
+interface PropertyDocumentation {
+    /** JSON path (`orders.total`) or key (`total`) → description, used instead of a schema description */
+    descriptions: Record<string, string>;
+    /** Summary stubs for properties without a description, and `<example>` elements with sample values */
+    docComments: boolean;
+}
+
+/**
+ * Type chosen for a string property, and where it goes in quicktype's C# type
+ */
+interface InferredPropertyType {
+    /** quicktype's type: `string` or `Uri`, possibly as an array or `List<>` element */
+    csType: string;
+    elementType: string;
+    type: string;
+    isCollection: boolean;
+}
+
+/**
+ * An enum inferred from string values, declared once per distinct name and value set
+ */
+interface InferredEnum {
+    name: string;
+    baseName: string;
+    members: EnumMember[];
+}
+
 /**
  * Create custom C# target language that omits namespace/usings.
  * When a serialization framework is specified, extends the framework-specific renderer
  * to get proper attribute support (e.g., [JsonPropertyName], [JsonProperty]).
+ * With `requiredProperties`, properties that are always present and never null get the `required` modifier.
+ * Named types are renamed per `typeNaming`; string properties get the framework types and enums in `inference`.
+ * Property descriptions come from `documentation`, the schema, or a stub.
+ * With `dataAnnotations`, properties get validation attributes. Number properties are sized per `numbers`.
  */
-function createCustomCSharpLanguage(framework?: SerializationAttributes) {
+function createCustomCSharpLanguage(
+    framework: SerializationAttributes | undefined,
+    requiredProperties: boolean,
+    typeNaming: TypeNaming,
+    inference: SampleInference,
+    documentation: PropertyDocumentation,
+    dataAnnotations: DataAnnotationSettings | undefined,
+    numbers: NumberTyping
+) {
     const { quicktypeCore, csharpLang } = loadQuicktypeModules();
     const { getOptionValues } = quicktypeCore;
     const {
@@ -77,8 +237,21 @@ function createCustomCSharpLanguage(framework?: SerializationAttributes) {
      * Custom C# renderer that:
      * - Omits namespace and using statements for clean paste
      * - Inherits attribute support from the framework-specific renderer when applicable
+     * - Marks required properties (only quicktype knows which properties are optional)
+     * - Names types from the rename map and singularized collection keys (only quicktype knows where a type came from)
+     * - Types string properties by their format (Guid, dates and times, numbers and booleans in strings)
+     * - Sizes number properties by the sample values at their JSON path, and applies decimal patterns
+     * - Declares enums for string properties with a small set of repeating values
+     * - Documents properties with configured descriptions, summary stubs and sample values
+     * - Adds validation attributes: `[Required]` (only quicktype knows which properties are optional), formats and bounds
      */
     class CustomCSharpRenderer extends BaseRenderer {
+        private typeNameSources?: Map<TypeType, TypeNameSource>;
+        private takenTypeNames?: Set<string>;
+        private readonly inferredEnums: InferredEnum[] = [];
+        /** Escaped example value per description returned by `descriptionForClassProperty()` */
+        private readonly examples = new WeakMap<readonly Sourcelike[], string>();
+
         protected needNamespace(): boolean {
             return false;
         }
@@ -86,6 +259,255 @@ function createCustomCSharpLanguage(framework?: SerializationAttributes) {
         protected emitUsings(): void {
             // Don't emit usings
         }
+
+        protected propertyDefinition(property: ClassPropertyType, name: NameType, c: ClassTypeType, jsonName: string): Sourcelike {
+            let definition = super.propertyDefinition(property, name, c, jsonName);
+            const inferred = Array.isArray(definition) ? this.inferredPropertyType(definition, c, jsonName) : undefined;
+            if (Array.isArray(definition) && inferred) {
+                const typeIndex = definition.length - 4;
+                const valueType = inferred.type !== 'string' && inferred.type !== 'Uri';
+                const nullable = valueType && !inferred.isCollection && (property.isOptional || property.type.isNullable) ? '?' : '';
+                const type = inferred.csType.replace(inferred.elementType, inferred.type) + nullable;
+                definition = [...definition.slice(0, typeIndex), type, ...definition.slice(typeIndex + 1)];
+            }
+            if (Array.isArray(definition) && definition.length >= 4) {
+                const typeIndex = definition.length - 4;
+                const type = this.sourcelikeToString(definition[typeIndex]);
+                const numberType = this.numberType(type, c, jsonName, this.sourcelikeToString(name));
+                if (numberType !== type) {
+                    definition = [...definition.slice(0, typeIndex), numberType, ...definition.slice(typeIndex + 1)];
+                }
+            }
+            if (requiredProperties && !property.isOptional && !property.type.isNullable && Array.isArray(definition) && definition[0] === 'public ') {
+                return ['public required ', ...definition.slice(1)];
+            }
+            return definition;
+        }
+
+        protected attributesForProperty(property: ClassPropertyType, name: NameType, c: ClassTypeType, jsonName: string): Sourcelike[] | undefined {
+            const attributes = super.attributesForProperty(property, name, c, jsonName);
+            const definition = (framework === 'SystemTextJson' && attributes) || dataAnnotations
+                ? super.propertyDefinition(property, name, c, jsonName)
+                : undefined;
+            const inferred = Array.isArray(definition) ? this.inferredPropertyType(definition, c, jsonName) : undefined;
+            const validation = dataAnnotations && Array.isArray(definition)
+                ? this.validationAttributes(property, definition, c, jsonName, inferred)
+                : [];
+            if (!attributes && validation.length === 0) {
+                return attributes;
+            }
+            // Ahead of [JsonPropertyName], so it stays above a redundant name attribute that is removed later
+            const converters = framework !== 'SystemTextJson' ? []
+                : inferred?.type === 'long' ? ['[JsonNumberHandling(JsonNumberHandling.AllowReadingFromString | JsonNumberHandling.WriteAsString)]']
+                    : inferred?.type === 'bool' ? ['[JsonConverter(typeof(BooleanStringConverter))]']
+                        : [];
+            return [...converters, ...attributes ?? [], ...validation];
+        }
+
+        /**
+         * `[Required]` for properties present and non-null in every sample (or required by a schema),
+         * and the format and bound attributes of the observed values of scalar properties
+         */
+        private validationAttributes(
+            property: ClassPropertyType,
+            definition: Sourcelike[],
+            c: ClassTypeType,
+            jsonName: string,
+            inferred: InferredPropertyType | undefined
+        ): string[] {
+            const required = !property.isOptional && !property.type.isNullable ? ['[Required]'] : [];
+            this.typeNameSources ??= this.collectTypeNameSources();
+            const source = this.typeNameSources.get(c);
+            const typeIndex = definition.length - 4;
+            if (!source || typeIndex < 0 || inferred?.isCollection) {
+                return required;
+            }
+            const type = inferred?.type ?? this.sourcelikeToString(definition[typeIndex]).replace(/\?$/, '');
+            const path = source.path ? `${source.path}.${jsonName}` : jsonName;
+            const observed = inference.observedValues?.get(source.topLevel)?.get(path);
+            return [...required, ...valueAttributes(jsonName, observed, type, dataAnnotations!.bounds)];
+        }
+
+        /** Properties with validation attributes are separated by blank lines, like those with serialization attributes */
+        protected blankLinesBetweenAttributes(): boolean {
+            return super.blankLinesBetweenAttributes() || dataAnnotations !== undefined;
+        }
+
+        protected descriptionForClassProperty(c: ClassTypeType, jsonName: string): string[] | undefined {
+            this.typeNameSources ??= this.collectTypeNameSources();
+            const source = this.typeNameSources.get(c);
+            const path = source?.path ? `${source.path}.${jsonName}` : jsonName;
+            const configured = documentation.descriptions[path] ?? documentation.descriptions[jsonName];
+            const description = configured !== undefined
+                ? configured.split('\n').map(line => escapeXml(line))
+                : super.descriptionForClassProperty(c, jsonName);
+            if (!documentation.docComments) {
+                return description;
+            }
+            // A copy, so the example belongs to this property only
+            const lines = description ? [...description] : [summaryStub(jsonName)];
+            const example = source && inference.examples?.get(source.topLevel)?.get(path);
+            if (example !== undefined) {
+                this.examples.set(lines, formatExample(example));
+            }
+            return lines;
+        }
+
+        protected emitDescriptionBlock(lines: Sourcelike[]): void {
+            super.emitDescriptionBlock(lines);
+            const example = this.examples.get(lines);
+            if (example !== undefined) {
+                this.emitLine('/// <example>', example, '</example>');
+            }
+        }
+
+        protected emitRequiredHelpers(): void {
+            // Enums are serialized as strings through attributes, so quicktype's enum converters are only
+            // needed alongside the converters of named unions
+            if (this.haveNamedUnions) {
+                super.emitRequiredHelpers();
+            }
+            this.forEachEnum('none', (e, enumName) => {
+                const members: EnumMember[] = [];
+                this.forEachEnumCase(e, 'none', (caseName, value) => members.push({ name: this.sourcelikeToString(caseName), value }));
+                inference.enumMembers.set(this.sourcelikeToString(enumName), members);
+            });
+            for (const inferred of this.inferredEnums) {
+                this.ensureBlankLine();
+                this.emitLine(`public enum ${inferred.name} { ${inferred.members.map(member => member.name).join(', ')} };`);
+                inference.enumMembers.set(inferred.name, inferred.members);
+            }
+        }
+
+        /**
+         * Type for a `string` (or quicktype `Uri`) property, or an array of them, from its sample values:
+         * a framework type by format, then an inferred enum, else `string` (quicktype infers `Uri` unconditionally).
+         * Undefined when quicktype's type stays.
+         */
+        private inferredPropertyType(definition: Sourcelike[], c: ClassTypeType, jsonName: string): InferredPropertyType | undefined {
+            this.typeNameSources ??= this.collectTypeNameSources();
+            const source = this.typeNameSources.get(c);
+            const typeIndex = definition.length - 4;
+            if (!source || !inference.stringTypes || typeIndex < 0) {
+                return undefined;
+            }
+            const csType = this.sourcelikeToString(definition[typeIndex]);
+            const element = /^(?:(\w+)\[\]|List<(\w+)>|(\w+))$/.exec(csType);
+            const elementType = element?.[1] ?? element?.[2] ?? element?.[3];
+            if (!element || (elementType !== 'string' && elementType !== 'Uri')) {
+                return undefined;
+            }
+            const isCollection = element[3] === undefined;
+            const path = source.path ? `${source.path}.${jsonName}` : jsonName;
+            const stringType = inference.stringTypes.get(source.topLevel)?.get(path);
+            const enumValues = inference.enumCandidates.get(source.topLevel)?.get(path);
+            // A converter for bool can't be applied to a collection of them
+            let type = stringType && !(isCollection && stringType === 'bool') ? stringType : 'string';
+            if (type === 'string' && enumValues) {
+                const mapped = typeNaming.typeNameMap[path] ?? typeNaming.typeNameMap[jsonName];
+                const baseName = mapped ?? enumMemberName(isCollection && typeNaming.singularize ? singularTypeName(jsonName) : jsonName);
+                type = this.inferredEnumName(baseName, enumValues);
+            }
+            return type === elementType ? undefined : { csType, elementType, type, isCollection };
+        }
+
+        /**
+         * Number type of a property: decimal when its JSON key or C# name matches a decimal pattern; otherwise
+         * integers become int with integerType `int`, and with `auto` when every sample value at the property's path
+         * is an integer in the int range. Types without `long` or `double` are returned as they are.
+         */
+        private numberType(type: string, c: ClassTypeType, jsonName: string, propertyName: string): string {
+            if (!/\b(?:long|double)\b/.test(type)) {
+                return type;
+            }
+            const name = propertyName.replace(/^@/, '');
+            if (numbers.decimalPatterns.some(pattern => pattern.test(jsonName) || pattern.test(name))) {
+                return type.replace(/\b(?:long|double)\b/g, 'decimal');
+            }
+            if (numbers.integerType === 'long') {
+                return type;
+            }
+            if (numbers.integerType === 'auto') {
+                this.typeNameSources ??= this.collectTypeNameSources();
+                const source = this.typeNameSources.get(c);
+                const path = source?.path ? `${source.path}.${jsonName}` : jsonName;
+                const stats = source && inference.numberStats?.get(source.topLevel)?.get(path);
+                if (!stats || !stats.allIntegers || stats.maxAbs > INT_MAX) {
+                    return type;
+                }
+            }
+            return type.replace(/\blong\b/g, 'int');
+        }
+
+        /**
+         * Name of the enum for a set of values, reusing an enum with the same base name and values
+         */
+        private inferredEnumName(baseName: string, values: string[]): string {
+            const sameValues = (members: EnumMember[]) =>
+                members.length === values.length && members.every(member => values.includes(member.value));
+            const existing = this.inferredEnums.find(e => e.baseName === baseName && sameValues(e.members));
+            if (existing) {
+                return existing.name;
+            }
+            this.takenTypeNames ??= new Set([...this.typeGraph.allNamedTypes()]
+                .filter(t => t.kind === 'class' || t.kind === 'object' || t.kind === 'enum')
+                .map(t => this.sourcelikeToString(this.nameForNamedType(t))));
+            let name = baseName;
+            for (let i = 2; this.takenTypeNames.has(name); i++) {
+                name = `${baseName}${i}`;
+            }
+            this.takenTypeNames.add(name);
+            this.inferredEnums.push({ name, baseName, members: enumMembers(values) });
+            return name;
+        }
+
+        protected makeNameForNamedType(t: TypeType): NameType {
+            const preferred = this.preferredTypeName(t);
+            // A top-level name is a single given name, which is exactly what a preferred name is
+            return preferred ? this.makeNameForTopLevel(t, preferred, undefined) : super.makeNameForNamedType(t);
+        }
+
+        private preferredTypeName(t: TypeType): string | undefined {
+            this.typeNameSources ??= this.collectTypeNameSources();
+            const source = this.typeNameSources.get(t);
+            if (!source) {
+                return undefined;
+            }
+            const mapped = typeNaming.typeNameMap[source.path] ?? typeNaming.typeNameMap[source.key];
+            if (mapped) {
+                return mapped;
+            }
+            return typeNaming.singularize && source.isElement ? singularTypeName(source.key) : undefined;
+        }
+
+        /**
+         * Walk the type graph breadth-first from the top levels, recording where each type first appears
+         */
+        private collectTypeNameSources(): Map<TypeType, TypeNameSource> {
+            const sources = new Map<TypeType, TypeNameSource>();
+            const queue: [TypeType, TypeNameSource][] = [...this.topLevels].map(([name, t]) => [t, { key: name, path: '', isElement: false, topLevel: name }]);
+            for (let next = queue.shift(); next; next = queue.shift()) {
+                const [t, source] = next;
+                if (sources.has(t)) {
+                    continue;
+                }
+                sources.set(t, source);
+                if (t.kind === 'class' || t.kind === 'object') {
+                    for (const [key, property] of (t as ClassTypeType).getProperties()) {
+                        queue.push([property.type, { ...source, key, path: source.path ? `${source.path}.${key}` : key, isElement: false }]);
+                    }
+                } else if (t.kind === 'array') {
+                    queue.push([(t as ArrayTypeType).items, { ...source, isElement: true }]);
+                } else if (t.kind === 'map') {
+                    queue.push([(t as MapTypeType).values, { ...source, isElement: true }]);
+                } else if (t.kind === 'union') {
+                    for (const member of (t as UnionTypeType).members) {
+                        queue.push([member, source]);
+                    }
+                }
+            }
+            return sources;
+        }
     }
 
     /**
@@ -117,11 +539,36 @@ export type CollectionType = 'Array' | 'List' | 'IList' | 'IEnumerable' | 'IRead
  */
 export type TypeStyle = 'class' | 'recordPositional' | 'recordProperties';
 
+/**
+ * Kind of record emitted by the record type styles
+ */
+export type RecordKind = 'record' | 'recordStruct' | 'readonlyRecordStruct';
+
+/**
+ * Accessor used for settable properties
+ */
+export type PropertyAccessor = 'set' | 'init';
+
+/**
+ * Accessibility of generated types
+ */
+export type TypeAccessibility = 'public' | 'internal';
+
 /**
  * How to handle nullable reference types
  */
 export type NullableStyle = 'nullable' | 'defaults';
 
+/**
+ * C# type for integer JSON numbers ('auto' picks int or long based on the observed magnitude)
+ */
+export type IntegerType = 'long' | 'int' | 'auto';
+
+/**
+ * C# type for fractional JSON numbers
+ */
+export type FractionalType = 'double' | 'decimal';
+
 /**
  * Serialization framework for property attributes
  */
@@ -132,60 +579,357 @@ export type SerializationAttributes = 'SystemTextJson' | 'NewtonsoftJson';
  */
 export interface ConverterOptions {
     typeStyle: TypeStyle;
+    recordKind: RecordKind;
+    propertyAccessor: PropertyAccessor;
+    requiredProperties: boolean;
+    typeAccessibility: TypeAccessibility;
+    sealedTypes: boolean;
+    typeNesting: TypeNesting;
+    typeOrder: TypeOrder;
     inferEnums: boolean;
+    enumMinOccurrences: number;
+    enumMaxValues: number;
     inferDateTimes: boolean;
+    inferStringTypes: StringTypeKind[];
     collectionType: CollectionType;
+    topLevelArrayAsSamples: boolean;
+    detectJsonSchema: boolean;
+    detectPolymorphism: boolean;
+    reuseIdenticalTypes: boolean;
+    integerType: IntegerType;
+    fractionalType: FractionalType;
+    decimalPropertyPatterns: string[];
+    singularizeTypeNames: boolean;
+    typeNameMap: Record<string, string>;
+    dictionaryPaths: Record<string, DictionaryMode>;
+    dictionaryMinKeys: number;
+    extensionData: boolean;
+    docComments: boolean;
+    descriptionMap: Record<string, string>;
+    dataAnnotations: boolean;
+    dataAnnotationBounds: boolean;
+    namingPolicy: NamingPolicy;
+    emitNamingPolicyOptions: boolean;
+    generateSerializerContext: boolean;
 }
 
 /**
- * Extract converter options from VS Code configuration
+ * Target-specific input for a conversion, determined by the caller
  */
-function getConverterOptions(config: vscode.WorkspaceConfiguration): ConverterOptions {
+export interface ConversionTarget {
+    /** Types already declared in the target, used to avoid name conflicts */
+    existingTypes?: Map<string, DeclaredType>;
+    /** Option values that take precedence over the configuration */
+    overrides?: Partial<ConverterOptions>;
+    /** C# language version of the target project; newer language features are avoided (undefined: latest) */
+    languageVersion?: number;
+    /** .NET version of the target's runtime APIs; newer serializer and framework types are avoided (undefined: latest) */
+    frameworkVersion?: number;
+    /** Reduce arrays to one element per distinct shape before quicktype infers the types (for large inputs) */
+    sampleArrays?: boolean;
+    /** Stops the conversion between its steps when aborted */
+    signal?: AbortSignal;
+}
+
+/**
+ * Default converter options, matching the defaults of the `json2csharp.*` settings
+ */
+export const DEFAULT_CONVERTER_OPTIONS: ConverterOptions = {
+    typeStyle: 'class',
+    recordKind: 'record',
+    propertyAccessor: 'set',
+    requiredProperties: false,
+    typeAccessibility: 'public',
+    sealedTypes: false,
+    typeNesting: 'none',
+    typeOrder: 'rootFirst',
+    inferEnums: false,
+    enumMinOccurrences: 3,
+    enumMaxValues: 10,
+    inferDateTimes: true,
+    inferStringTypes: ['Uri'],
+    collectionType: 'IEnumerable',
+    topLevelArrayAsSamples: false,
+    detectJsonSchema: true,
+    detectPolymorphism: true,
+    reuseIdenticalTypes: true,
+    integerType: 'long',
+    fractionalType: 'double',
+    decimalPropertyPatterns: [],
+    singularizeTypeNames: true,
+    typeNameMap: {},
+    dictionaryPaths: {},
+    dictionaryMinKeys: 0,
+    extensionData: false,
+    docComments: false,
+    descriptionMap: {},
+    dataAnnotations: false,
+    dataAnnotationBounds: false,
+    namingPolicy: 'none',
+    emitNamingPolicyOptions: false,
+    generateSerializerContext: false,
+};
+
+/**
+ * Downgrade options that need a newer C# or .NET version than the target project uses:
+ * records need C# 9, record structs C# 10, init accessors C# 9 and required members C# 11;
+ * DateOnly and TimeOnly need .NET 6, whatever the C# version
+ */
+function limitToTarget(options: ConverterOptions, languageVersion: number, frameworkVersion: number): ConverterOptions {
     return {
-        typeStyle: config.get<TypeStyle>('typeStyle', 'class'),
-        inferEnums: config.get<boolean>('inferEnums', false),
-        inferDateTimes: config.get<boolean>('inferDateTimes', true),
-        collectionType: config.get<CollectionType>('collectionType', 'IEnumerable'),
+        ...options,
+        typeStyle: languageVersion < 9 ? 'class' : options.typeStyle,
+        recordKind: languageVersion < 10 ? 'record' : options.recordKind,
+        propertyAccessor: languageVersion < 9 ? 'set' : options.propertyAccessor,
+        requiredProperties: options.requiredProperties && languageVersion >= 11,
+        inferStringTypes: options.inferStringTypes.filter(kind => frameworkVersion >= 6 || (kind !== 'DateOnly' && kind !== 'TimeOnly')),
     };
 }
 
 /**
- * Convert JSON string to C# classes using quicktype
+ * Expand a single top-level array of objects into one sample per element,
+ * so each element is treated as a separate document of the root type
+ */
+function expandTopLevelArray(samples: string[]): string[] {
+    if (samples.length !== 1) {
+        return samples;
+    }
+    const parsed: unknown = JSON.parse(samples[0]);
+    if (!Array.isArray(parsed) || parsed.length === 0
+        || !parsed.every(item => item !== null && typeof item === 'object' && !Array.isArray(item))) {
+        return samples;
+    }
+    return parsed.map(item => JSON.stringify(item));
+}
+
+/**
+ * JSON Schema keywords that identify a property definition inside `properties`
+ */
+const SCHEMA_KEYWORDS = ['type', '$ref', 'enum', 'const', 'format', 'items', 'oneOf', 'anyOf', 'allOf'];
+
+/**
+ * Check whether a JSON document is a JSON Schema rather than an example payload.
+ * A document is a schema when it declares `$schema`, has `definitions`/`$defs`,
+ * or is an object type whose `properties` are all schema definitions.
+ */
+export function isJsonSchema(json: string): boolean {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        return false;
+    }
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return false;
+    }
+
+    const isSchemaObject = (value: unknown): boolean =>
+        value !== null && typeof value === 'object' && !Array.isArray(value);
+    const doc = parsed as Record<string, unknown>;
+
+    if (typeof doc['$schema'] === 'string') {
+        return true;
+    }
+    for (const key of ['definitions', '$defs']) {
+        const definitions = doc[key];
+        if (isSchemaObject(definitions) && Object.values(definitions as object).every(isSchemaObject)) {
+            return true;
+        }
+    }
+
+    const properties = doc['properties'];
+    if (doc['type'] === 'object' && isSchemaObject(properties)) {
+        const definitions = Object.values(properties as object);
+        return definitions.length > 0 && definitions.every(definition =>
+            isSchemaObject(definition) && SCHEMA_KEYWORDS.some(keyword => keyword in definition));
+    }
+    return false;
+}
+
+/**
+ * Rewrite draft 2019-09+ `$defs` to `definitions`, which quicktype uses to name referenced types
+ */
+function normalizeJsonSchema(schema: string): string {
+    const doc = JSON.parse(schema) as Record<string, unknown>;
+    if (!('$defs' in doc) || 'definitions' in doc) {
+        return schema;
+    }
+    const { $defs, ...rest } = doc;
+    return JSON.stringify({ ...rest, definitions: $defs }).replace(/"#\/\$defs\//g, '"#/definitions/');
+}
+
+/**
+ * Convert JSON to C# classes using quicktype.
+ * When a namespace is provided, the file-scoped namespace and required usings are prepended.
+ * When the target has existing types, conflicting generated type names are renamed or reused.
  */
 export async function convertJsonToCSharp(
-    jsonString: string,
+    json: string | string[],
     rootClassName: string,
-    config: vscode.WorkspaceConfiguration,
+    configuredOptions: Partial<ConverterOptions>,
     nullableStyle?: NullableStyle,
     namespace?: string,
     serializationAttributes?: SerializationAttributes,
-    alwaysRenderAttributes: boolean = false
+    alwaysRenderAttributes: boolean = false,
+    target: ConversionTarget = {}
 ): Promise<string> {
-    const options = getConverterOptions(config);
+    const options = { ...DEFAULT_CONVERTER_OPTIONS, ...configuredOptions, ...target.overrides };
+    const output = await generateTypes(json, rootClassName, options, nullableStyle, serializationAttributes, alwaysRenderAttributes, target);
+
+    if (!namespace) {
+        return output;
+    }
+    return addNamespaceAndUsings(output, namespace, (target.languageVersion ?? Infinity) >= 10);
+}
+
+/**
+ * A generated type declaration with the contents of its own file
+ */
+export interface GeneratedTypeFile {
+    typeName: string;
+    code: string;
+}
+
+/**
+ * Convert JSON to C# with one file per generated class, record or enum.
+ * Every file gets the namespace (if provided) and only the usings its own declaration requires.
+ */
+export async function convertJsonToCSharpFiles(
+    json: string | string[],
+    rootClassName: string,
+    configuredOptions: Partial<ConverterOptions>,
+    nullableStyle?: NullableStyle,
+    namespace?: string,
+    serializationAttributes?: SerializationAttributes,
+    alwaysRenderAttributes: boolean = false,
+    target: ConversionTarget = {}
+): Promise<GeneratedTypeFile[]> {
+    const options = { ...DEFAULT_CONVERTER_OPTIONS, ...configuredOptions, ...target.overrides };
+    const output = await generateTypes(json, rootClassName, options, nullableStyle, serializationAttributes, alwaysRenderAttributes, target);
+
+    return splitTypeDeclarations(output).map(({ typeName, code }) => ({
+        typeName,
+        code: addNamespaceAndUsings(code, namespace, (target.languageVersion ?? Infinity) >= 10),
+    }));
+}
+
+/**
+ * Generate the C# type declarations (without namespace or usings) using quicktype.
+ * Accepts one or more JSON samples; all samples are fed into the same quicktype source
+ * so that optional properties and union types are inferred from the variation across them.
+ * Only language features available in the target's C# version are used.
+ */
+async function generateTypes(
+    json: string | string[],
+    rootClassName: string,
+    configuredOptions: ConverterOptions,
+    configuredNullableStyle: NullableStyle | undefined,
+    serializationAttributes: SerializationAttributes | undefined,
+    alwaysRenderAttributes: boolean,
+    target: ConversionTarget
+): Promise<string> {
+    const languageVersion = target.languageVersion ?? Infinity;
+    const options = limitToTarget(configuredOptions, languageVersion, target.frameworkVersion ?? Infinity);
+    // Nullable reference types need C# 8
+    const nullableStyle = languageVersion >= 8 ? configuredNullableStyle : undefined;
+    const namingPolicy = supportedNamingPolicy(options.namingPolicy, serializationAttributes, target.frameworkVersion ?? Infinity);
+
+    let samples = Array.isArray(json) ? json : [json];
+    if (options.topLevelArrayAsSamples) {
+        samples = expandTopLevelArray(samples);
+    }
 
     // Lazy-load quicktype-core modules
     const { quicktypeCore } = loadQuicktypeModules();
-    const { quicktype, InputData, jsonInputForTargetLanguage } = quicktypeCore;
+    const { quicktype, InputData, jsonInputForTargetLanguage, JSONSchemaInput, FetchingJSONSchemaStore } = quicktypeCore;
 
-    // Set up quicktype input
-    const jsonInput = jsonInputForTargetLanguage('csharp');
-    await jsonInput.addSource({
-        name: rootClassName,
-        samples: [jsonString],
+    // Set up quicktype input: JSON Schema documents are read as schemas, everything else as samples
+    const inputData = new InputData();
+    const isSchemaInput = options.detectJsonSchema && samples.length === 1 && isJsonSchema(samples[0]);
+    // Force or forbid dictionaries per path (schemas declare them with additionalProperties)
+    const mapSamples = isSchemaInput ? samples : applyDictionaryInference(samples, {
+        paths: options.dictionaryPaths,
+        minKeys: options.dictionaryMinKeys,
     });
+    const polymorphic = options.detectPolymorphism && !isSchemaInput
+        ? extractPolymorphicArrays(mapSamples, rootClassName, Object.values(options.typeNameMap))
+        : { samples: mapSamples, arrays: [] };
+    await checkCancellation(target.signal);
 
-    const inputData = new InputData();
-    inputData.addInput(jsonInput);
+    // quicktype only needs one value per shape; the sample inference below still reads every value
+    let reduce = (samples: string[]) => samples;
+    if (target.sampleArrays && !isSchemaInput) {
+        const { inferTransformedStringTypeKindForString, DefaultDateTimeRecognizer } = loadStringFormats();
+        const recognizer = new DefaultDateTimeRecognizer();
+        reduce = samples => reduceSamples(samples, value => inferTransformedStringTypeKindForString(value, recognizer));
+    }
+    if (isSchemaInput) {
+        const schemaInput = new JSONSchemaInput(new FetchingJSONSchemaStore());
+        await schemaInput.addSource({
+            name: rootClassName,
+            schema: normalizeJsonSchema(samples[0]),
+        });
+        inputData.addInput(schemaInput);
+    } else {
+        const jsonInput = jsonInputForTargetLanguage('csharp');
+        await jsonInput.addSource({
+            name: rootClassName,
+            samples: reduce(polymorphic.samples),
+        });
+        // Each variant of a polymorphic array becomes a top-level type of its own
+        for (const variant of polymorphic.arrays.flatMap(array => array.variants)) {
+            await jsonInput.addSource({
+                name: variant.typeName,
+                samples: reduce(variant.samples),
+            });
+        }
+        inputData.addInput(jsonInput);
+    }
+
+    // Infer string formats and enums per top-level type (schemas declare formats and enums explicitly)
+    const inference: SampleInference = { enumCandidates: new Map(), enumMembers: new Map() };
+    if (!isSchemaInput) {
+        const stringTypeInference = { kinds: options.inferStringTypes, dateTimes: options.inferDateTimes };
+        const enumInference = { minOccurrences: options.enumMinOccurrences, maxValues: options.enumMaxValues };
+        const topLevels = [
+            { name: rootClassName, samples: polymorphic.samples },
+            ...polymorphic.arrays.flatMap(array => array.variants).map(variant => ({ name: variant.typeName, samples: variant.samples })),
+        ];
+        inference.stringTypes = new Map(topLevels.map(({ name, samples }) => [name, collectStringTypes(samples, stringTypeInference)]));
+        if (options.inferEnums) {
+            inference.enumCandidates = new Map(topLevels.map(({ name, samples }) => [name, collectEnumCandidates(samples, enumInference)]));
+        }
+        if (options.docComments) {
+            inference.examples = new Map(topLevels.map(({ name, samples }) => [name, collectExamples(samples)]));
+        }
+        if (options.dataAnnotations) {
+            inference.observedValues = new Map(topLevels.map(({ name, samples }) => [name, observeValues(samples)]));
+        }
+        if (options.integerType === 'auto') {
+            inference.numberStats = new Map(topLevels.map(({ name, samples }) => [name, collectNumberStats(samples)]));
+        }
+    }
+
+    await checkCancellation(target.signal);
 
     // Use custom C# language that omits namespace/usings
-    const lang = createCustomCSharpLanguage(serializationAttributes);
+    const lang = createCustomCSharpLanguage(serializationAttributes, options.requiredProperties, {
+        typeNameMap: options.typeNameMap,
+        singularize: options.singularizeTypeNames,
+    }, inference, {
+        descriptions: options.descriptionMap,
+        docComments: options.docComments,
+    }, options.dataAnnotations ? { bounds: options.dataAnnotationBounds } : undefined, {
+        integerType: options.integerType,
+        decimalPatterns: options.decimalPropertyPatterns.map(globToRegExp),
+    });
 
     // Build renderer options based on serialization attributes setting
     const rendererOptions: Record<string, string> = {
         'namespace': '',
         'csharp-version': '6',
         'any-type': 'object',
-        'number-type': 'double',
+        'number-type': options.fractionalType,
         'array-type': options.collectionType === 'Array' ? 'array' : 'list',
     };
 
@@ -202,89 +946,177 @@ export async function convertJsonToCSharp(
         inputData,
         lang,
         rendererOptions,
-        inferEnums: options.inferEnums,
-        inferDateTimes: options.inferDateTimes,
+        // String enums are inferred by the renderer with configurable limits; schema enums are always kept
+        inferEnums: false,
+        // Samples are typed by their string formats in the renderer; schema formats (date-time, uuid) are always honored
+        inferDateTimes: isSchemaInput,
         inferMaps: true,
-        inferUuids: false,
+        inferUuids: isSchemaInput,
         inferBooleanStrings: false,
         inferIntegerStrings: false,
     });
 
     let output = result.lines.join('\n');
+    await checkCancellation(target.signal);
 
-    // Post-process: Remove redundant serialization attributes where JSON key matches C# name
-    if (serializationAttributes && !alwaysRenderAttributes) {
-        output = removeRedundantAttributes(output);
+    // Post-process: Turn the classes of polymorphic arrays into a base type with derived types
+    if (polymorphic.arrays.length > 0) {
+        output = applyPolymorphism(output, polymorphic.arrays, serializationAttributes, nullableStyle !== undefined);
     }
 
-    // Post-process: Convert to the selected collection type
-    if (options.collectionType !== 'Array') {
-        output = convertCollectionType(output, options.collectionType);
+    // Post-process: Serialize enums as their JSON strings
+    output = applyStringEnums(output, inference.enumMembers, serializationAttributes, target.frameworkVersion ?? Infinity);
+
+    // Post-process: Rewrite declarations and properties in one pass over a model of the generated types,
+    // then order and nest them
+    const types = parseTypeModels(output);
+    transformTypes(types, {
+        options,
+        nullableStyle,
+        serializationAttributes,
+        removeRedundantAttributes: serializationAttributes !== undefined && !alwaysRenderAttributes,
+        namingPolicy,
+        collectionExpressions: languageVersion >= 12,
+    });
+    output = renderTypeModels(arrangeTypes(types, rootClassName, options.typeNesting, options.typeOrder));
+
+    // Post-process: Rename or reuse types that conflict with types already in the target
+    if (target.existingTypes) {
+        output = resolveTypeNameConflicts(output, target.existingTypes, rootClassName, options.reuseIdenticalTypes);
+    }
+
+    // Post-process: Append serializer options configuring the naming policy the attributes rely on
+    if (options.emitNamingPolicyOptions && namingPolicy !== 'none' && serializationAttributes) {
+        const optionsClass = buildNamingPolicyOptions(rootClassName, namingPolicy, serializationAttributes, languageVersion >= 9);
+        if (optionsClass) {
+            output = `${output.trim()}\n\n${optionsClass}`;
+        }
     }
 
-    // Post-process: Handle nullable reference types based on user choice
-    if (nullableStyle === 'nullable') {
-        output = addNullableAnnotations(output);
-    } else if (nullableStyle === 'defaults') {
-        output = addDefaultValues(output);
+    // Post-process: Append the converter for booleans in strings, unless the target already declares it
+    if (output.includes('typeof(BooleanStringConverter)') && !target.existingTypes?.has('BooleanStringConverter')) {
+        output = `${output.trim()}\n\n${buildBooleanStringConverter()}`;
     }
 
-    // Post-process: Remove unnecessary 'partial' keyword
-    output = output.replace(/public\s+partial\s+class/g, 'public class');
+    // Post-process: Append a source-generation serializer context for the root type and its collection
+    const declaresRoot = new RegExp(`\\b(?:class|record|struct)\\s+${rootClassName}\\b`).test(output);
+    if (options.generateSerializerContext && serializationAttributes === 'SystemTextJson' && declaresRoot) {
+        const typeNames = serializableTypeNames(rootClassName, options.collectionType);
+        output = `${output.trim()}\n\n${buildSerializerContext(`${rootClassName}JsonContext`, typeNames, namingPolicy)}`;
+    }
 
-    // Post-process: Convert to records if configured
-    if (options.typeStyle === 'recordPositional') {
-        output = convertToPositionalRecords(output);
-    } else if (options.typeStyle === 'recordProperties') {
-        output = output.replace(/public\s+class\s+(\w+)/g, 'public record $1');
+    // Post-process: Make top-level types internal (after the options class and context, which reference them)
+    if (options.typeAccessibility === 'internal') {
+        output = output.replace(/^public(?=\s+(?:(?:static|sealed|abstract|partial|readonly)\s+)*(?:class|record|struct|enum)\b)/gm, 'internal');
     }
 
-    // Post-process: Prepend file-scoped namespace if provided
-    if (namespace) {
+    return output.trim();
+}
+
+/**
+ * Using directives and the code patterns that require them
+ */
+const USING_RULES: { using: string; pattern: RegExp }[] = [
+    // Framework types such as Guid, Uri and DateTimeOffset
+    { using: 'System', pattern: /\b(?:DateTime|DateTimeOffset|DateOnly|TimeOnly|TimeSpan|Guid|Uri|NotSupportedException)\b|\bArray\.Empty<|\bType typeToConvert\b/ },
+    // Generic collections (arrays are built-in) and inferred maps
+    { using: 'System.Collections.Generic', pattern: /\b(?:List|IList|IEnumerable|IReadOnlyList|Dictionary)</ },
+    { using: 'System.Text.Json', pattern: /\bJson(?:SerializerOptions|NamingPolicy|Element|Exception)\b|\bUtf8JsonReader\b/ },
+    { using: 'System.ComponentModel.DataAnnotations', pattern: /\[(?:property: )?(?:Required|EmailAddress|Url|Phone)\]|\[(?:property: )?(?:StringLength|Range)\(/ },
+    { using: 'System.Runtime.Serialization', pattern: /\[EnumMember\(/ },
+    { using: 'System.Text.Json.Serialization', pattern: /\[(?:property: )?Json(?:PropertyName|Ignore)\(|\bJsonSerializerContext\b|\[JsonPolymorphic\b|\bJsonStringEnum(?:Converter|MemberName)\b|\[JsonNumberHandling\(|\bJsonConverter<\w+>|\[JsonExtensionData\]\s+public Dictionary<string, JsonElement>/ },
+    { using: 'Newtonsoft.Json', pattern: /\[(?:property: )?JsonProperty\(|\bJsonSerializerSettings\b|\bJsonSerializationException\b|\bStringEnumConverter\b|\[JsonExtensionData\]\s+public Dictionary<string, JToken>/ },
+    { using: 'Newtonsoft.Json.Converters', pattern: /\bStringEnumConverter\b/ },
+    { using: 'Newtonsoft.Json.Linq', pattern: /\bJ(?:Object|Token)\b/ },
+    { using: 'Newtonsoft.Json.Serialization', pattern: /\b(?:DefaultContractResolver|\w+NamingStrategy)\b/ },
+];
+
+/**
+ * Prepend the namespace (if provided) and the using statements the code requires.
+ * Usings are only added for types and attributes that actually appear in the code.
+ * Before C# 10 the namespace is block-scoped instead of file-scoped.
+ */
+function addNamespaceAndUsings(code: string, namespace: string | undefined, fileScoped: boolean = true): string {
+    let output = code;
+
+    // Prepend file-scoped namespace if provided, or wrap the code in a namespace block
+    if (namespace && fileScoped) {
         output = `namespace ${namespace};\n\n${output}`;
+    } else if (namespace) {
+        const indented = output.split('\n').map(line => line ? `    ${line}` : line).join('\n');
+        output = `namespace ${namespace}\n{\n${indented}\n}`;
     }
 
-    // Post-process: Collect and prepend required using statements when namespace is included
-    if (namespace) {
-        const usings: string[] = [];
+    // Collect and prepend required using statements, sorted by namespace (`System` before `System.*`)
+    const usings = USING_RULES
+        .filter(rule => rule.pattern.test(code))
+        .map(rule => rule.using)
+        .sort((a, b) => a.localeCompare(b));
+    if (usings.length > 0) {
+        output = `${usings.map(ns => `using ${ns};`).join('\n')}\n\n${output}`;
+    }
 
-        // Collection types (all except Array) require System.Collections.Generic
-        if (options.collectionType !== 'Array' && output.includes(`${options.collectionType}<`)) {
-            usings.push('using System.Collections.Generic;');
-        }
+    return output;
+}
 
-        // Serialization attributes require their respective namespace (only if attributes are actually present in output)
-        if (serializationAttributes === 'SystemTextJson' && /\[(?:property: )?JsonPropertyName\(/.test(output)) {
-            usings.push('using System.Text.Json.Serialization;');
-        } else if (serializationAttributes === 'NewtonsoftJson' && /\[(?:property: )?JsonProperty\(/.test(output)) {
-            usings.push('using Newtonsoft.Json;');
-        }
+/**
+ * Observed values of a numeric JSON property
+ */
+interface NumberStats {
+    allIntegers: boolean;
+    maxAbs: number;
+}
 
-        if (usings.length > 0) {
-            usings.sort();
-            output = `${usings.join('\n')}\n\n${output}`;
+/**
+ * Largest value that fits in a C# int
+ */
+const INT_MAX = 2147483647;
+
+/**
+ * Walk the samples and record, per dot-separated path from the top level (arrays add no segment),
+ * whether all numeric values are integers and the largest magnitude seen
+ */
+function collectNumberStats(samples: string[]): Map<string, NumberStats> {
+    const stats = new Map<string, NumberStats>();
+    const visit = (path: string, value: unknown): void => {
+        if (Array.isArray(value)) {
+            value.forEach(item => visit(path, item));
+        } else if (value !== null && typeof value === 'object') {
+            for (const [key, child] of Object.entries(value)) {
+                visit(path ? `${path}.${key}` : key, child);
+            }
+        } else if (typeof value === 'number') {
+            const current = stats.get(path) ?? { allIntegers: true, maxAbs: 0 };
+            current.allIntegers &&= Number.isInteger(value);
+            current.maxAbs = Math.max(current.maxAbs, Math.abs(value));
+            stats.set(path, current);
         }
-    }
+    };
 
-    return output.trim();
+    samples.forEach(sample => visit('', JSON.parse(sample)));
+    return stats;
 }
 
 /**
- * Convert List<T> to the selected collection type
+ * Convert a glob-like pattern (`*price*`) to a case-insensitive regular expression
  */
-function convertCollectionType(code: string, collectionType: CollectionType): string {
+function globToRegExp(pattern: string): RegExp {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Convert List<T> to the selected collection type, including lists nested in other generic types
+ */
+function convertCollectionType(type: string, collectionType: CollectionType): string {
     switch (collectionType) {
-        case 'List':
-            // quicktype generates List<T> when array-type is 'list', keep as-is
-            return code;
         case 'IList':
-            return code.replace(/\bList</g, 'IList<');
         case 'IEnumerable':
-            return code.replace(/\bList</g, 'IEnumerable<');
         case 'IReadOnlyList':
-            return code.replace(/\bList</g, 'IReadOnlyList<');
+            return type.replace(/\bList</g, `${collectionType}<`);
         default:
-            return code;
+            // quicktype generates List<T> when array-type is 'list' and T[] for 'array', keep as-is
+            return type;
     }
 }
 
@@ -299,130 +1131,228 @@ const VALUE_TYPES = new Set([
     'long', 'ulong',
     'float', 'double', 'decimal',
     'char',
-    'DateTime', 'DateTimeOffset', 'TimeSpan',
+    'DateTime', 'DateTimeOffset', 'DateOnly', 'TimeOnly', 'TimeSpan',
     'Guid',
 ]);
 
 /**
- * Add nullable annotations (?) to reference type properties.
- * This makes the generated code compatible with <Nullable>enable</Nullable>
+ * Whether a property type is a value type: built-in value types, and enums and structs declared in the output
  */
-function addNullableAnnotations(code: string): string {
-    // Match property declarations: public TYPE NAME { get; set; }
-    const propertyRegex = /public\s+(\S+)\s+(\w+)\s*\{\s*get;\s*set;\s*\}/g;
-
-    return code.replace(propertyRegex, (match, type: string, name: string) => {
-        // Skip if already nullable
-        if (type.endsWith('?')) {
-            return match;
-        }
-
-        // Check if it's a value type (doesn't need ?)
-        const baseType = type.replace(/<.*>/, ''); // Remove generic part for checking
-        if (VALUE_TYPES.has(baseType)) {
-            return match;
-        }
-
-        // Reference type - add nullable annotation
-        return `public ${type}? ${name} { get; set; }`;
-    });
+function isValueType(type: string, declaredValueTypes: Set<string>): boolean {
+    const baseType = type.replace(/<.*>/, ''); // Remove generic part for checking
+    return VALUE_TYPES.has(baseType) || declaredValueTypes.has(baseType);
 }
 
 /**
- * Add default values to reference type properties.
- * This makes the generated code compatible with <Nullable>enable</Nullable>
- * by initializing properties instead of making them nullable.
+ * Default value for a reference type property, so it can be non-nullable without an annotation.
+ * Collections use `[]` from C# 12, and `new List<T>()` / `Array.Empty<T>()` before that.
  */
-function addDefaultValues(code: string): string {
-    // Match property declarations: public TYPE NAME { get; set; }
-    const propertyRegex = /public\s+(\S+)\s+(\w+)\s*\{\s*get;\s*set;\s*\}/g;
+function defaultValue(type: string, collectionExpressions: boolean): string {
+    if (type === 'string') {
+        return 'string.Empty';
+    }
+    if (type.endsWith('[]')) {
+        return collectionExpressions ? '[]' : `Array.Empty<${type.slice(0, -2)}>()`;
+    }
+    if (/^(?:IEnumerable|List|IList|IReadOnlyList)</.test(type)) {
+        return collectionExpressions ? '[]' : `new List${type.slice(type.indexOf('<'))}()`;
+    }
+    if (type.startsWith('Dictionary<')) {
+        return `new ${type}()`;
+    }
+    if (type === 'object') {
+        return 'new object()';
+    }
+    // For other reference types (custom classes), use null-forgiving default
+    return 'default!';
+}
 
-    return code.replace(propertyRegex, (match, type: string, name: string) => {
-        // Skip if already has default value or is nullable
-        if (type.endsWith('?')) {
-            return match;
-        }
+/**
+ * The naming policy the serializer can apply: `none` when the framework has no equivalent, as Newtonsoft.Json has
+ * no uppercase strategies and System.Text.Json only has snake and kebab case policies from .NET 8.
+ * Attributes are kept and no options are generated for a policy the serializer can't apply.
+ */
+function supportedNamingPolicy(namingPolicy: NamingPolicy, framework: SerializationAttributes | undefined, frameworkVersion: number): NamingPolicy {
+    if (namingPolicy === 'none' || namingPolicy === 'camelCase') {
+        return namingPolicy;
+    }
+    if (framework === 'NewtonsoftJson') {
+        return NEWTONSOFT_STRATEGIES[namingPolicy] ? namingPolicy : 'none';
+    }
+    return frameworkVersion >= 8 ? namingPolicy : 'none';
+}
 
-        // Check if it's a value type (doesn't need default)
-        const baseType = type.replace(/<.*>/, ''); // Remove generic part for checking
-        if (VALUE_TYPES.has(baseType)) {
-            return match;
-        }
+/**
+ * Whether a serialization attribute is redundant because the serializer produces the JSON key on its own.
+ * Without a naming policy, the JSON key must match the C# property name (case-insensitive):
+ * [JsonPropertyName("year")] above Year is redundant, [JsonPropertyName("my_title")] above MyTitle is not.
+ * With a naming policy, the policy applied to the property name must produce the key exactly:
+ * with snake_case_lower, [JsonPropertyName("my_title")] above MyTitle is redundant as well.
+ * Attributes with further arguments (`NullValueHandling = ...`) are always kept.
+ */
+function isRedundantAttribute(attribute: string, propertyName: string, namingPolicy: NamingPolicy): boolean {
+    const match = attribute.match(/^\[(?:JsonPropertyName|JsonProperty)\("([^"\\]+)"\)\]$/);
+    if (!match) {
+        return false;
+    }
+    const jsonKey = match[1];
+    return namingPolicy === 'none'
+        ? jsonKey.toLowerCase() === propertyName.toLowerCase()
+        : applyNamingPolicy(propertyName, namingPolicy) === jsonKey;
+}
 
-        // Determine default value based on type
-        let defaultValue: string;
-        if (type === 'string') {
-            defaultValue = 'string.Empty';
-        } else if (type.startsWith('IEnumerable<') || type.startsWith('List<') || type.startsWith('IList<') || type.startsWith('IReadOnlyList<') || type.endsWith('[]')) {
-            defaultValue = '[]';
-        } else if (type === 'object') {
-            defaultValue = 'new object()';
-        } else {
-            // For other reference types (custom classes), use null-forgiving with new()
-            defaultValue = 'default!';
-        }
+/**
+ * Record keyword for each record kind
+ */
+const RECORD_KEYWORDS: Record<RecordKind, string> = {
+    record: 'record',
+    recordStruct: 'record struct',
+    readonlyRecordStruct: 'readonly record struct',
+};
 
-        return `public ${type} ${name} { get; set; } = ${defaultValue};`;
-    });
+/**
+ * Settings for rewriting the generated type model
+ */
+interface TypeModelSettings {
+    options: ConverterOptions;
+    nullableStyle: NullableStyle | undefined;
+    serializationAttributes: SerializationAttributes | undefined;
+    /** Remove serialization attributes the serializer doesn't need (`attributeRendering`: `whenDifferent`) */
+    removeRedundantAttributes: boolean;
+    /** Naming policy the serializer applies (see `supportedNamingPolicy()`) */
+    namingPolicy: NamingPolicy;
+    /** Collection defaults can use `[]` (C# 12) */
+    collectionExpressions: boolean;
 }
 
 /**
- * Remove serialization attributes where the JSON key matches the C# property name (case-insensitive).
- * E.g., removes [JsonPropertyName("year")] above a property named Year,
- * but keeps [JsonPropertyName("my_title")] above MyTitle.
+ * Overflow property for JSON fields without a matching property, so they survive a round-trip.
+ * With doc comments, it gets a summary like the generated properties.
  */
-function removeRedundantAttributes(code: string): string {
-    // Match attribute line followed by property line, where attribute value equals property name
-    // Use [ \t]* instead of \s* to avoid consuming blank lines above the attribute
-    const redundantAttrRegex = /^[ \t]*\[(?:JsonPropertyName|JsonProperty)\("(\w+)"\)\]\n([ \t]*public\s+\S+\s+(\w+)\s*\{)/gm;
-
-    return code.replace(redundantAttrRegex, (_match, jsonKey, propertyLine, propName) => {
-        if (jsonKey.toLowerCase() === propName.toLowerCase()) {
-            // JSON key matches C# name (ignoring case) — remove the attribute line
-            return propertyLine;
-        }
-        // Names differ — keep the attribute
-        return _match;
-    });
+function extensionDataProperty(name: string, framework: SerializationAttributes, documented: boolean): PropertyModel {
+    return {
+        comments: documented ? ['/// <summary>', '/// JSON properties that match no other property.', '/// </summary>'] : [],
+        attributes: ['[JsonExtensionData]'],
+        modifiers: [],
+        type: framework === 'SystemTextJson' ? 'Dictionary<string, JsonElement>' : 'Dictionary<string, JToken>',
+        name,
+        accessors: 'get; set;',
+        // A positional record can't bind extension data to a constructor parameter
+        inBody: true,
+    };
 }
 
 /**
- * Convert C# classes to positional records
- * Transforms: public class Foo { public string Bar { get; set; } }
- * To: public record Foo(string Bar);
- * Preserves serialization attributes with [property:] target.
- */
-function convertToPositionalRecords(code: string): string {
-    // Match class declarations and their properties
-    // Use [\s\S] instead of [^}] to match across braces inside the class body
-    const classRegex = /public\s+class\s+(\w+)\s*\{([\s\S]*?)\n\}/g;
-
-    return code.replace(classRegex, (match, className, body: string) => {
-        // Extract properties with optional preceding attribute lines
-        // Captures: optional [JsonPropertyName("...")] or [JsonProperty("...")], then property declaration
-        const propertyRegex = /(?:\[(?:JsonPropertyName|JsonProperty)\("[^"]*"\)\]\s*\n\s*)?public\s+(\S+)\s+(\w+)\s*\{\s*get;\s*set;\s*\}(?:\s*=\s*[^;]+)?/g;
-        const parameters: string[] = [];
-        let propMatch;
-
-        while ((propMatch = propertyRegex.exec(body)) !== null) {
-            const fullMatch = propMatch[0];
-            const [, type, name] = propMatch;
-
-            // Check if there's an attribute on this property
-            const attrMatch = fullMatch.match(/\[(JsonPropertyName|JsonProperty)\("([^"]*)"\)\]/);
-            if (attrMatch) {
-                const attrName = attrMatch[1];
-                const jsonKey = attrMatch[2];
-                parameters.push(`[property: ${attrName}("${jsonKey}")] ${type} ${name}`);
-            } else {
-                parameters.push(`${type} ${name}`);
+ * Rewrite the generated types for the configured options in one pass:
+ * record declarations, sealed types, the extension data property, and per property the collection types,
+ * redundant attributes, nullable annotations or default values, and init accessors.
+ * Only types whose body consists of properties are changed; others (enums, converters) keep their body.
+ */
+function transformTypes(types: TypeModel[], settings: TypeModelSettings): void {
+    const { options } = settings;
+    const recordKeyword = RECORD_KEYWORDS[options.recordKind];
+
+    // Records: polymorphic base and derived types can only become (reference type) records together,
+    // and positional records need properties; everything else stays a class
+    for (const type of types) {
+        type.modifiers = type.modifiers.filter(modifier => modifier !== 'partial');
+        type.properties = type.properties?.filter(property => property.name !== CLASS_MARKER);
+        const isHierarchy = type.modifiers.includes('abstract') || type.baseType !== undefined;
+        if (type.properties && type.keyword === 'class') {
+            if (options.typeStyle === 'recordPositional' && !isHierarchy && type.properties.length > 0) {
+                type.keyword = recordKeyword;
+                type.positional = true;
+            } else if (options.typeStyle === 'recordProperties' && (!isHierarchy || options.recordKind === 'record')) {
+                type.keyword = recordKeyword;
             }
         }
+        // Seal generated classes and records (structs and enums are sealed already)
+        const sealable = (type.keyword === 'class' || type.keyword === 'record')
+            && !type.modifiers.some(modifier => modifier === 'abstract' || modifier === 'static' || modifier === 'sealed');
+        if (options.sealedTypes && sealable) {
+            type.modifiers.push('sealed');
+        }
+        // Derived types inherit the property; serializers reject a second one
+        if (options.extensionData && settings.serializationAttributes && type.properties && !type.baseType) {
+            const name = uniqueTypeName('ExtensionData', new Set(type.properties.map(property => property.name)));
+            type.properties.push(extensionDataProperty(name, settings.serializationAttributes, options.docComments));
+            type.spaced = true;
+        }
+    }
+
+    // Enums and record structs are value types, so properties of those types need neither annotations nor defaults.
+    // Struct property initializers require an explicit constructor, so record structs with properties
+    // are annotated instead of initialized.
+    const declaredValueTypes = new Set(types.filter(type => type.keyword === 'enum' || type.keyword.endsWith('struct')).map(type => type.name));
+    const initializersAllowed = options.typeStyle !== 'recordProperties' || options.recordKind === 'record';
+    const nullableStyle = settings.nullableStyle === 'defaults' && !initializersAllowed ? 'nullable' : settings.nullableStyle;
+    // Readonly record structs can't have setters
+    const initAccessors = options.propertyAccessor === 'init'
+        || (options.typeStyle === 'recordProperties' && options.recordKind === 'readonlyRecordStruct');
 
-        if (parameters.length === 0) {
-            return match; // Keep as class if no properties found
+    for (const type of types) {
+        for (const property of type.properties ?? []) {
+            property.type = convertCollectionType(property.type, options.collectionType);
+
+            if (settings.removeRedundantAttributes) {
+                property.attributes = property.attributes.filter(attribute => !isRedundantAttribute(attribute, property.name, settings.namingPolicy));
+            }
+
+            // Nullable reference types: skip nullable, value type and required (always present and non-null) properties
+            const isReference = !property.type.endsWith('?') && !property.modifiers.includes('required')
+                && !isValueType(property.type, declaredValueTypes);
+            if (isReference && nullableStyle === 'nullable') {
+                property.type = `${property.type}?`;
+            } else if (isReference && nullableStyle === 'defaults' && (!type.positional || property.inBody)) {
+                property.initializer = defaultValue(property.type, settings.collectionExpressions);
+            }
+
+            if (initAccessors) {
+                property.accessors = property.accessors.replace(/\bset;/, 'init;');
+            }
+
+            // Positional parameters are always required and can't carry the write-only [JsonIgnore(Condition = ...)]
+            if (type.positional) {
+                property.attributes = property.attributes.filter(attribute => !attribute.startsWith('[JsonIgnore(Condition'));
+            }
         }
+    }
+}
 
-        return `public record ${className}(${parameters.join(', ')});`;
-    });
+/**
+ * Build a static class exposing serializer options configured with the naming policy,
+ * or undefined when the framework has no built-in equivalent (Newtonsoft uppercase variants).
+ * Target-typed `new()` needs C# 9.
+ */
+function buildNamingPolicyOptions(
+    rootClassName: string,
+    namingPolicy: Exclude<NamingPolicy, 'none'>,
+    serializationAttributes: SerializationAttributes,
+    targetTypedNew: boolean
+): string | undefined {
+    if (serializationAttributes === 'SystemTextJson') {
+        return [
+            `public static class ${rootClassName}JsonOptions`,
+            '{',
+            `    public static JsonSerializerOptions Default { get; } = ${targetTypedNew ? 'new()' : 'new JsonSerializerOptions'}`,
+            '    {',
+            `        PropertyNamingPolicy = JsonNamingPolicy.${SYSTEM_TEXT_JSON_POLICIES[namingPolicy]},`,
+            '    };',
+            '}',
+        ].join('\n');
+    }
+
+    const strategy = NEWTONSOFT_STRATEGIES[namingPolicy];
+    if (!strategy) {
+        return undefined;
+    }
+    return [
+        `public static class ${rootClassName}JsonSettings`,
+        '{',
+        `    public static JsonSerializerSettings Default { get; } = ${targetTypedNew ? 'new()' : 'new JsonSerializerSettings'}`,
+        '    {',
+        `        ContractResolver = new DefaultContractResolver { NamingStrategy = new ${strategy}() },`,
+        '    };',
+        '}',
+    ].join('\n');
 }
@@ -0,0 +1,210 @@
+import * as path from 'path';
+import {
+    convertJsonToCSharp,
+    convertJsonToCSharpFiles,
+    ConverterOptions,
+    DEFAULT_CONVERTER_OPTIONS,
+    GeneratedTypeFile,
+    NullableStyle,
+    SerializationAttributes
+} from './converter';
+import { ProjectSettings, readProjectSettings } from './project';
+import { DeclaredType } from './typeNames';
+import { repairJson, splitJsonDocuments, validateJson } from './validator';
+
+/**
+ * Nullable reference type handling as configured (`defaultValues` initializes instead of annotating)
+ */
+export type NullableSetting = 'none' | 'nullable' | 'defaultValues';
+
+/**
+ * Output of a conversion: all types in one block (or file), or one file per type
+ */
+export type OutputMode = 'singleFile' | 'filePerType';
+
+/**
+ * Values of every setting that affects the generated code, named like the `json2csharp.*` settings.
+ * The extension reads them from its configuration, the CLI from its arguments.
+ */
+export interface CoreSettings extends ConverterOptions {
+    rootClassName: string;
+    nullableReferenceTypes: NullableSetting;
+    serializationAttributes: 'none' | SerializationAttributes;
+    attributeRendering: 'whenDifferent' | 'always';
+    lenientParsing: boolean;
+    outputMode: OutputMode;
+}
+
+/**
+ * Defaults of the settings, matching the extension manifest
+ */
+export const DEFAULT_SETTINGS: CoreSettings = {
+    ...DEFAULT_CONVERTER_OPTIONS,
+    rootClassName: 'Root',
+    nullableReferenceTypes: 'none',
+    serializationAttributes: 'SystemTextJson',
+    attributeRendering: 'whenDifferent',
+    lenientParsing: true,
+    outputMode: 'singleFile',
+};
+
+/**
+ * Settings passed to the converter alongside the converter options
+ */
+export interface GenerationSettings {
+    nullableStyle?: NullableStyle;
+    serializationAttributes?: SerializationAttributes;
+    alwaysRenderAttributes: boolean;
+    /** C# language version of the target project (undefined: latest) */
+    languageVersion?: number;
+    /** .NET version of the target project's runtime APIs (undefined: latest) */
+    frameworkVersion?: number;
+}
+
+/**
+ * Resolve nullable, serialization attribute and attribute rendering settings.
+ * When a target project is known, its `<Nullable>` and Newtonsoft.Json package reference
+ * replace the settings that were not set explicitly, and its C# and .NET versions limit the output.
+ */
+export function resolveGenerationSettings(
+    settings: Pick<CoreSettings, 'nullableReferenceTypes' | 'serializationAttributes' | 'attributeRendering'>,
+    project: ProjectSettings | undefined,
+    isExplicitlySet: (key: keyof CoreSettings) => boolean
+): GenerationSettings {
+    // Nullable style from the settings, or from <Nullable> in the project
+    const nullableSetting = project?.nullable !== undefined && !isExplicitlySet('nullableReferenceTypes')
+        ? (project.nullable ? 'nullable' : 'none')
+        : settings.nullableReferenceTypes;
+    const nullableStyle: NullableStyle | undefined =
+        nullableSetting === 'nullable' ? 'nullable' :
+            nullableSetting === 'defaultValues' ? 'defaults' : undefined;
+
+    // Serialization attributes from the settings, or the serializer the project references
+    const serializationSetting = project?.serializationAttributes && !isExplicitlySet('serializationAttributes')
+        ? project.serializationAttributes
+        : settings.serializationAttributes;
+    const serializationAttributes: SerializationAttributes | undefined =
+        serializationSetting === 'SystemTextJson' ? 'SystemTextJson' :
+            serializationSetting === 'NewtonsoftJson' ? 'NewtonsoftJson' : undefined;
+
+    const alwaysRenderAttributes = settings.attributeRendering === 'always';
+
+    return {
+        nullableStyle,
+        serializationAttributes,
+        alwaysRenderAttributes,
+        languageVersion: project?.languageVersion,
+        frameworkVersion: project?.frameworkVersion,
+    };
+}
+
+/**
+ * JSON samples parsed from input texts, or the error that made an input unusable
+ */
+export interface ParsedSamples {
+    samples: string[];
+    /** Descriptions of the lenient repairs that were applied */
+    repairs: string[];
+    error?: string;
+}
+
+/**
+ * Parse the input texts into JSON samples. Each text may hold several concatenated
+ * documents or newline-delimited JSON. Every document is validated as strict JSON; when
+ * lenient parsing is enabled, invalid documents are repaired.
+ */
+export function parseJsonSamples(texts: string[], lenientParsing: boolean): ParsedSamples {
+    const documents = texts.flatMap(text => {
+        // A single valid document is the common case, don't split it or validate it again
+        const validationResult = validateJson(text);
+        return validationResult.isValid
+            ? [{ document: text, validationResult }]
+            : splitJsonDocuments(text).map(document => ({ document, validationResult: validateJson(document) }));
+    });
+    const samples: string[] = [];
+    const repairs = new Set<string>();
+
+    for (const [index, { document, validationResult }] of documents.entries()) {
+        if (validationResult.isValid) {
+            samples.push(document);
+            continue;
+        }
+
+        if (lenientParsing) {
+            const repaired = repairJson(document);
+            if (repaired.repairs.length > 0 && validateJson(repaired.json).isValid) {
+                repaired.repairs.forEach(repair => repairs.add(repair));
+                samples.push(repaired.json);
+                continue;
+            }
+        }
+
+        const location = documents.length > 1 ? ` (document ${index + 1} of ${documents.length})` : '';
+        return { samples: [], repairs: [...repairs], error: `Invalid JSON${location}: ${validationResult.error}` };
+    }
+    return { samples, repairs: [...repairs] };
+}
+
+/**
+ * Derive a PascalCase class name from a file name, e.g. `order-response.json` → `OrderResponse`.
+ * Returns undefined if no valid C# identifier can be derived.
+ */
+export function classNameFromFileName(fileName: string): string | undefined {
+    const baseName = path.parse(fileName).name;
+    const name = baseName
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(part => part.length > 0)
+        .map(part => part[0].toUpperCase() + part.slice(1))
+        .join('');
+    return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) ? name : undefined;
+}
+
+/**
+ * Input for a headless conversion
+ */
+export interface GenerateRequest {
+    /** JSON texts, merged into one type model; each may hold several documents */
+    texts: string[];
+    /** Settings that differ from the defaults; these also take precedence over the target project */
+    settings?: Partial<CoreSettings>;
+    /** Root class name (default: the `rootClassName` setting) */
+    rootClassName?: string;
+    /** Namespace to declare; usings are only added together with a namespace */
+    namespace?: string;
+    /** Path of the .cs file the code is written to; its project supplies defaults and the C# version */
+    targetPath?: string;
+    /** Types already declared in the target, used to avoid name conflicts */
+    existingTypes?: Map<string, DeclaredType>;
+}
+
+/**
+ * Generated files (one per type in `filePerType` output mode, else one for all types) and the applied repairs
+ */
+export interface GenerateResult {
+    files: GeneratedTypeFile[];
+    repairs: string[];
+}
+
+/**
+ * Convert JSON texts to C# without VS Code. Throws when the input is not usable JSON.
+ */
+export async function generateCSharp(request: GenerateRequest): Promise<GenerateResult> {
+    const settings = { ...DEFAULT_SETTINGS, ...request.settings };
+    const rootClassName = request.rootClassName ?? settings.rootClassName;
+    const { samples, repairs, error } = parseJsonSamples(request.texts, settings.lenientParsing);
+    if (error) {
+        throw new Error(error);
+    }
+
+    const project = request.targetPath ? readProjectSettings(request.targetPath) : undefined;
+    const { nullableStyle, serializationAttributes, alwaysRenderAttributes, languageVersion, frameworkVersion } =
+        resolveGenerationSettings(settings, project, key => request.settings?.[key] !== undefined);
+    const target = { existingTypes: request.existingTypes, languageVersion, frameworkVersion };
+
+    if (settings.outputMode === 'filePerType') {
+        const files = await convertJsonToCSharpFiles(samples, rootClassName, settings, nullableStyle, request.namespace, serializationAttributes, alwaysRenderAttributes, target);
+        return { files, repairs };
+    }
+    const code = await convertJsonToCSharp(samples, rootClassName, settings, nullableStyle, request.namespace, serializationAttributes, alwaysRenderAttributes, target);
+    return { files: [{ typeName: rootClassName, code }], repairs };
+}
@@ -0,0 +1,110 @@
+import { URI } from './stringTypes';
+
+/**
+ * String formats with a validation attribute, in order of preference
+ */
+type ValueFormat = 'EmailAddress' | 'Url' | 'Phone';
+
+const FORMATS: { format: ValueFormat; test: (value: string) => boolean }[] = [
+    { format: 'EmailAddress', test: value => /^[^@\s]+@[^@\s]+\.[^@\s.]+$/.test(value) },
+    { format: 'Url', test: value => URI.test(value) },
+    // 7 to 15 digits with an optional leading `+` and separators; only for keys that name a phone number
+    { format: 'Phone', test: value => /^\+?[\d\s().-]+$/.test(value) && /^(?:\D*\d){7,15}\D*$/.test(value) },
+];
+const PHONE_KEY = /phone|mobile|fax|^tel$|telephone/i;
+const INT_MIN = -2147483648;
+const INT_MAX = 2147483647;
+
+/**
+ * Non-null values observed for a JSON property
+ */
+export interface ObservedValues {
+    /** JSON kinds of the values: `string`, `number`, `boolean` or `object` (arrays count by their items) */
+    kinds: Set<string>;
+    /** Formats every string value matched */
+    formats: Set<ValueFormat>;
+    minLength: number;
+    maxLength: number;
+    min: number;
+    max: number;
+}
+
+/**
+ * Walk the samples and record the values of every property, per dot-separated path
+ * from the top level (arrays add no segment). Null values are ignored.
+ */
+export function observeValues(samples: string[]): Map<string, ObservedValues> {
+    const observed = new Map<string, ObservedValues>();
+
+    const visit = (path: string, value: unknown): void => {
+        if (value === null) {
+            return;
+        }
+        if (Array.isArray(value)) {
+            value.forEach(item => visit(path, item));
+            return;
+        }
+        const entry = observed.get(path) ?? {
+            kinds: new Set(),
+            formats: new Set(FORMATS.map(({ format }) => format)),
+            minLength: Infinity,
+            maxLength: 0,
+            min: Infinity,
+            max: -Infinity,
+        };
+        observed.set(path, entry);
+        entry.kinds.add(typeof value);
+        if (typeof value === 'object') {
+            for (const [key, child] of Object.entries(value)) {
+                visit(path ? `${path}.${key}` : key, child);
+            }
+        } else if (typeof value === 'string') {
+            FORMATS.filter(({ test }) => !test(value)).forEach(({ format }) => entry.formats.delete(format));
+            entry.minLength = Math.min(entry.minLength, value.length);
+            entry.maxLength = Math.max(entry.maxLength, value.length);
+        } else if (typeof value === 'number') {
+            entry.min = Math.min(entry.min, value);
+            entry.max = Math.max(entry.max, value);
+        }
+    };
+    samples.forEach(sample => visit('', JSON.parse(sample)));
+    return observed;
+}
+
+/**
+ * `[Range]` for the observed bounds: `int` arguments when they fit, else `long` or `double` bounds
+ */
+function rangeAttribute(min: number, max: number): string {
+    if (Number.isInteger(min) && Number.isInteger(max)) {
+        return min >= INT_MIN && max <= INT_MAX ? `[Range(${min}, ${max})]` : `[Range(typeof(long), "${min}", "${max}")]`;
+    }
+    const literal = (value: number) => Number.isInteger(value) ? `${value}.0` : String(value);
+    return `[Range(${literal(min)}, ${literal(max)})]`;
+}
+
+/**
+ * Validation attributes for the values of a scalar property whose C# type is `type`:
+ * a format attribute for strings that all match one, and with `bounds` `[StringLength]` or `[Range]`
+ * for the observed lengths or numbers. Properties that also hold other kinds of values get none.
+ */
+export function valueAttributes(key: string, observed: ObservedValues | undefined, type: string, bounds: boolean): string[] {
+    if (!observed || observed.kinds.size !== 1) {
+        return [];
+    }
+    const attributes: string[] = [];
+    if (type === 'string' && observed.kinds.has('string')) {
+        const format = FORMATS.find(({ format }) => observed.formats.has(format) && (format !== 'Phone' || PHONE_KEY.test(key)));
+        if (format) {
+            attributes.push(`[${format.format}]`);
+        }
+        if (bounds) {
+            attributes.push(observed.minLength > 0
+                ? `[StringLength(${observed.maxLength}, MinimumLength = ${observed.minLength})]`
+                : `[StringLength(${observed.maxLength})]`);
+        }
+    }
+    if (bounds && /^(?:long|int|double|decimal)$/.test(type) && observed.kinds.has('number')) {
+        attributes.push(rangeAttribute(observed.min, observed.max));
+    }
+    return attributes;
+}
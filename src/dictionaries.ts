@@ -0,0 +1,113 @@
+/**
+ * How the objects at a JSON path are generated: as `Dictionary<string, T>` or as a class
+ */
+export type DictionaryMode = 'dictionary' | 'class';
+
+/**
+ * Overrides for quicktype's dictionary (map) inference
+ */
+export interface DictionaryInference {
+    /** Mode per JSON key or dot-separated path (arrays and dictionaries add no segment) */
+    paths: Record<string, DictionaryMode>;
+    /** Objects with at least this many distinct keys whose values are all of one JSON kind become dictionaries (0: off) */
+    minKeys: number;
+}
+
+/**
+ * Property added to objects that must stay classes. Its value has a type no other property has,
+ * so quicktype never finds the property types uniform enough for a map. The property is removed after rendering.
+ */
+export const CLASS_MARKER = 'Json2CSharpClass';
+const CLASS_MARKER_VALUE = [[[[true]]]];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON kind of a value for comparing dictionary values (integers and fractions are both numbers)
+ */
+function valueKind(value: unknown): string {
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Objects of a JSON value, looking into arrays
+ */
+function objectsOf(value: unknown): JsonObject[] {
+    return Array.isArray(value) ? value.flatMap(objectsOf) : isObject(value) ? [value] : [];
+}
+
+/**
+ * Mode for the objects at a path from the configured paths (a path wins over a key) and the key-count threshold,
+ * or undefined to leave it to quicktype
+ */
+function decideMode(objects: JsonObject[], path: string, inference: DictionaryInference): DictionaryMode | undefined {
+    const configured = inference.paths[path] ?? inference.paths[path.split('.').pop()!];
+    if (configured) {
+        return configured;
+    }
+    const keys = new Set(objects.flatMap(object => Object.keys(object)));
+    const kinds = new Set(objects.flatMap(object => Object.values(object).filter(value => value !== null).map(valueKind)));
+    return inference.minKeys > 0 && keys.size >= inference.minKeys && kinds.size <= 1 ? 'dictionary' : undefined;
+}
+
+/**
+ * Decide the mode of every path, visiting all objects at a path together.
+ * Like arrays, dictionaries add no segment: the values of a dictionary at `scores` are at `scores`,
+ * and their properties at `scores.name`, matching the paths of `typeNameMap`.
+ */
+function decideModes(objects: JsonObject[], path: string, inference: DictionaryInference, modes: Map<string, DictionaryMode>): void {
+    const mode = path ? decideMode(objects, path, inference) : undefined;
+    if (mode) {
+        modes.set(path, mode);
+    }
+    const owners = mode === 'dictionary' ? objects.flatMap(object => Object.values(object).flatMap(objectsOf)) : objects;
+    const keys = new Set(owners.flatMap(owner => Object.keys(owner)));
+    for (const key of keys) {
+        const children = owners.flatMap(owner => objectsOf(owner[key]));
+        if (children.length > 0) {
+            decideModes(children, path ? `${path}.${key}` : key, inference, modes);
+        }
+    }
+}
+
+/**
+ * Rewrite the samples so quicktype infers dictionaries where they are forced and classes where they are forbidden:
+ * keys of forced dictionaries become digits (quicktype always makes a map of digit-only keys; the key names
+ * don't appear in a `Dictionary<string, T>`), and objects that must stay classes get the class marker.
+ * quicktype only makes maps of two or more properties, so a single entry is repeated under a second key.
+ */
+export function applyDictionaryInference(samples: string[], inference: DictionaryInference): string[] {
+    if (Object.keys(inference.paths).length === 0 && inference.minKeys <= 0) {
+        return samples;
+    }
+    const documents: unknown[] = samples.map(sample => JSON.parse(sample));
+    const modes = new Map<string, DictionaryMode>();
+    decideModes(documents.flatMap(objectsOf), '', inference, modes);
+    if (modes.size === 0) {
+        return samples;
+    }
+
+    // `mode` is undefined for the values of a dictionary, which share its path
+    const rewrite = (value: unknown, path: string, mode: DictionaryMode | undefined): unknown => {
+        if (Array.isArray(value)) {
+            return value.map(item => rewrite(item, path, mode));
+        }
+        if (!isObject(value)) {
+            return value;
+        }
+        if (mode === 'dictionary') {
+            const values = Object.values(value).map(child => rewrite(child, path, undefined));
+            return Object.fromEntries((values.length === 1 ? [values[0], values[0]] : values).map((child, index) => [String(index), child]));
+        }
+        const entries: [string, unknown][] = Object.entries(value).map(([key, child]) => {
+            const childPath = path ? `${path}.${key}` : key;
+            return [key, rewrite(child, childPath, modes.get(childPath))];
+        });
+        return Object.fromEntries(mode === 'class' ? [...entries, [CLASS_MARKER, CLASS_MARKER_VALUE]] : entries);
+    };
+    return documents.map(document => JSON.stringify(rewrite(document, '', undefined)));
+}
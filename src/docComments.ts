@@ -0,0 +1,63 @@
+import { splitWords } from './naming';
+
+/**
+ * Longest example value in a doc comment, in characters of JSON
+ */
+const MAX_EXAMPLE_LENGTH = 80;
+
+/**
+ * Walk the samples and record the first non-null value of every property as JSON, per dot-separated path
+ * from the top level (arrays add no segment). Objects get no example, arrays of scalars are kept whole.
+ */
+export function collectExamples(samples: string[]): Map<string, string> {
+    const examples = new Map<string, string>();
+
+    const visit = (path: string, value: unknown): void => {
+        if (value === null) {
+            return;
+        }
+        if (Array.isArray(value)) {
+            if (path && !examples.has(path) && value.length > 0 && value.every(item => item === null || typeof item !== 'object')) {
+                examples.set(path, JSON.stringify(value));
+            }
+            value.forEach(item => visit(path, item));
+            return;
+        }
+        if (typeof value === 'object') {
+            for (const [key, child] of Object.entries(value)) {
+                visit(path ? `${path}.${key}` : key, child);
+            }
+            return;
+        }
+        if (path && !examples.has(path)) {
+            examples.set(path, JSON.stringify(value));
+        }
+    };
+    samples.forEach(sample => visit('', JSON.parse(sample)));
+    return examples;
+}
+
+/**
+ * Escape text for an XML doc comment
+ */
+export function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Example value for an `<example>` element: truncated with an ellipsis and escaped
+ */
+export function formatExample(json: string): string {
+    const truncated = json.length > MAX_EXAMPLE_LENGTH ? `${json.slice(0, MAX_EXAMPLE_LENGTH - 1)}…` : json;
+    return escapeXml(truncated);
+}
+
+/**
+ * Summary for a property without a description, from its JSON key (`first_name` → `The first name.`).
+ * Acronyms keep their case (`userID` → `The user ID.`).
+ */
+export function summaryStub(jsonKey: string): string {
+    const words = splitWords(jsonKey.replace(/[^A-Za-z0-9]+/g, ' ').trim())
+        .map(word => /^[A-Z0-9]{2,}$/.test(word) ? word : word.toLowerCase());
+    return words.length > 0 ? `The ${words.join(' ')}.` : `The ${escapeXml(jsonKey)} value.`;
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { ConversionTarget, convertJsonToCSharp } from './converter';
+import { calculateNamespace } from './namespace';
+import { readProjectSettings } from './project';
+import { readGenerationSettings, readSettings } from './settings';
+import { DeclaredType } from './typeNames';
+import { findSerializerContext } from './workspaceTypes';
+
+/**
+ * Generated code for a document, and the existing serializer context the root type should be registered in
+ */
+export interface DocumentConversion {
+    code: string;
+    serializerContext?: vscode.Uri;
+}
+
+/**
+ * Convert JSON samples to C# for insertion into a document.
+ * The document's project supplies defaults and the C# version, the namespace is calculated for the document,
+ * and an existing serializer context in the document (or project) is reused instead of generating one.
+ * `control` enables array sampling and cancellation.
+ */
+export async function convertForDocument(
+    document: vscode.TextDocument,
+    samples: string[],
+    rootClassName: string,
+    config: vscode.WorkspaceConfiguration,
+    withNamespace: boolean,
+    existingTypes: Map<string, DeclaredType> | undefined,
+    control: Pick<ConversionTarget, 'sampleArrays' | 'signal'> = {}
+): Promise<DocumentConversion> {
+    // Project settings (<Nullable>, C# version, serializer package) adjust the defaults
+    const project = document.uri.scheme === 'file' ? readProjectSettings(document.uri.fsPath) : undefined;
+    const { nullableStyle, serializationAttributes, alwaysRenderAttributes, languageVersion, frameworkVersion } = readGenerationSettings(config, project);
+
+    // Calculate namespace if requested
+    const namespace = withNamespace ? calculateNamespace(document.uri.fsPath) : undefined;
+
+    // Register the types in an existing serializer context rather than generating a second one
+    const serializerContext = await findSerializerContext(config, serializationAttributes, document.uri, document.getText());
+
+    const code = await convertJsonToCSharp(samples, rootClassName, readSettings(config), nullableStyle, namespace, serializationAttributes, alwaysRenderAttributes, {
+        existingTypes,
+        overrides: serializerContext ? { generateSerializerContext: false } : undefined,
+        languageVersion,
+        frameworkVersion,
+        ...control,
+    });
+    return { code, serializerContext };
+}
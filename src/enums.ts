@@ -0,0 +1,148 @@
+import type { SerializationAttributes } from './converter';
+import { isFormattedString, observeStrings } from './stringTypes';
+
+/**
+ * Limits for inferring a string enum from the values of a JSON property
+ */
+export interface EnumInference {
+    /** Minimum number of string values seen for the property */
+    minOccurrences: number;
+    /** Maximum number of distinct values */
+    maxValues: number;
+}
+
+/**
+ * A member of a generated enum and the JSON string it stands for
+ */
+export interface EnumMember {
+    name: string;
+    value: string;
+}
+
+/**
+ * Collect the string properties that look like enums, per dot-separated path from the top level
+ * (arrays add no segment): every non-null value is a string, at least `minOccurrences` values were seen,
+ * at most `maxValues` of them are distinct, some value repeats, not every value is a number, and not every value
+ * is in a string format (GUIDs, dates, times, durations, URIs, integer and boolean strings keep their own types).
+ * Returns path → distinct values in first-seen order.
+ */
+export function collectEnumCandidates(samples: string[], inference: EnumInference): Map<string, string[]> {
+    const candidates = new Map<string, string[]>();
+    for (const [path, { values, count, onlyStrings }] of observeStrings(samples)) {
+        const isEnum = path !== '' && onlyStrings
+            && count >= inference.minOccurrences
+            && values.size <= inference.maxValues
+            && values.size < count
+            && [...values].some(value => !/^[-+]?[0-9]+(?:\.[0-9]+)?$/.test(value))
+            && ![...values].every(isFormattedString);
+        if (isEnum) {
+            candidates.set(path, [...values]);
+        }
+    }
+    return candidates;
+}
+
+/**
+ * PascalCase C# identifier for a JSON string (`in-progress` → `InProgress`, `ACTIVE_USER` → `ActiveUser`).
+ * Values starting with a digit get a `Value` prefix; values without letters or digits become `Empty`.
+ */
+export function enumMemberName(value: string): string {
+    const words = value.split(/[^A-Za-z0-9]+/).flatMap(part => part.match(/[A-Z]+(?![a-z])|[A-Z]?[a-z]+|[0-9]+/g) ?? []);
+    const name = words
+        .map(word => word[0].toUpperCase() + (word === word.toUpperCase() ? word.slice(1).toLowerCase() : word.slice(1)))
+        .join('');
+    if (!name) {
+        return 'Empty';
+    }
+    return /^[0-9]/.test(name) ? `Value${name}` : name;
+}
+
+/**
+ * Members for the given JSON strings, with numeric suffixes for names that would collide
+ */
+export function enumMembers(values: string[]): EnumMember[] {
+    const taken = new Set<string>();
+    return values.map(value => {
+        const base = enumMemberName(value);
+        let name = base;
+        for (let i = 2; taken.has(name); i++) {
+            name = `${base}${i}`;
+        }
+        taken.add(name);
+        return { name, value };
+    });
+}
+
+/**
+ * System.Text.Json converter between the members of an enum and their JSON strings, for targets before
+ * .NET 9, which have no `[JsonStringEnumMemberName]`
+ */
+function buildEnumConverter(name: string, members: EnumMember[]): string[] {
+    return [
+        `public class ${name}Converter : JsonConverter<${name}>`,
+        '{',
+        `    public override ${name} Read(ref Utf8JsonReader reader, Type typeToConvert, JsonSerializerOptions options)`,
+        '    {',
+        '        var value = reader.GetString();',
+        '        switch (value)',
+        '        {',
+        ...members.map(member => `            case ${JSON.stringify(member.value)}: return ${name}.${member.name};`),
+        '        }',
+        `        throw new JsonException("Unknown ${name} value: " + value);`,
+        '    }',
+        '',
+        `    public override void Write(Utf8JsonWriter writer, ${name} value, JsonSerializerOptions options)`,
+        '    {',
+        '        switch (value)',
+        '        {',
+        ...members.map(member => `            case ${name}.${member.name}: writer.WriteStringValue(${JSON.stringify(member.value)}); return;`),
+        '        }',
+        `        throw new JsonException("Unknown ${name} value: " + value);`,
+        '    }',
+        '}',
+    ];
+}
+
+/**
+ * Declaration of a string enum for the serialization framework and the target's .NET version:
+ * System.Text.Json gets `JsonStringEnumConverter<T>` (non-generic before .NET 8) and `[JsonStringEnumMemberName]`
+ * (from .NET 9; before that a converter of its own when a member name differs from its JSON value),
+ * Newtonsoft.Json gets `StringEnumConverter` and `[EnumMember]`; member attributes only where the C# name differs.
+ */
+function buildEnumDeclaration(name: string, members: EnumMember[], framework: SerializationAttributes, frameworkVersion: number): string[] {
+    const renamed = members.some(member => member.name !== member.value);
+    const ownConverter = framework === 'SystemTextJson' && frameworkVersion < 9 && renamed;
+    const converter = framework === 'NewtonsoftJson' ? 'StringEnumConverter'
+        : ownConverter ? `${name}Converter`
+        : frameworkVersion >= 8 ? `JsonStringEnumConverter<${name}>` : 'JsonStringEnumConverter';
+    const lines = [`[JsonConverter(typeof(${converter}))]`, `public enum ${name}`, '{'];
+    for (const member of members) {
+        if (member.name !== member.value && !ownConverter) {
+            lines.push(framework === 'NewtonsoftJson'
+                ? `    [EnumMember(Value = ${JSON.stringify(member.value)})]`
+                : `    [JsonStringEnumMemberName(${JSON.stringify(member.value)})]`);
+        }
+        lines.push(`    ${member.name},`);
+    }
+    lines.push('}');
+    return ownConverter ? [...lines, '', ...buildEnumConverter(name, members)] : lines;
+}
+
+/**
+ * Rewrite the single-line enums quicktype renders (`public enum Status { Done, InProgress };`)
+ * into string enums wired to the serializer, using the JSON value of every member
+ */
+export function applyStringEnums(
+    code: string,
+    enums: Map<string, EnumMember[]>,
+    framework: SerializationAttributes | undefined,
+    frameworkVersion: number
+): string {
+    if (!framework) {
+        return code;
+    }
+    return code.replace(/^public enum (\w+) \{[^}\n]*\};$/gm, (declaration, name: string) => {
+        const members = enums.get(name);
+        return members ? buildEnumDeclaration(name, members, framework, frameworkVersion).join('\n') : declaration;
+    });
+}
@@ -1,7 +1,14 @@
 import * as vscode from 'vscode';
-import { convertJsonToCSharp, NullableStyle, SerializationAttributes } from './converter';
-import { calculateNamespace } from './namespace';
-import { validateJson } from './validator';
+import { convertForDocument } from './documentConversion';
+import { generateCSharpFile, generateTypeFiles, pickTargetFolder } from './fileGenerator';
+import { NamingPolicy } from './naming';
+import { chooseArraySampling, pickJsonFiles, resolveJsonSamples } from './input';
+import { pasteWithPreview } from './preview';
+import { withCancellableProgress } from './progress';
+import { findTypeAtRange, generateSampleJson } from './sampleJson';
+import { promptRootClassName, resolveConfiguration, resolveNamespaceMode, reviewTypeNames } from './settings';
+import { renameTypes, uniqueTypeName } from './typeNames';
+import { registerSerializableTypes, scanExistingTypes } from './workspaceTypes';
 
 function escapeForSnippet(text: string): string {
     return text.replace(/\\/g, '\\\\').replace(/\$/g, '\\$').replace(/}/g, '\\}');
@@ -13,106 +20,121 @@ function buildSnippetText(csharpCode: string, rootClassName: string): string {
     return escaped.replace(pattern, `\${1:${rootClassName}}`);
 }
 
-function resolveNamespaceMode(config: vscode.WorkspaceConfiguration): 'withoutNamespace' | 'withNamespace' | 'choose' {
-    const raw = config.get<string | boolean>('namespaceMode');
-
-    // Migration: handle old boolean includeNamespace setting
-    const rawInclude = config.get<boolean | undefined>('includeNamespace');
-    if (raw === undefined && rawInclude !== undefined) {
-        return rawInclude ? 'withNamespace' : 'withoutNamespace';
+/**
+ * Convert the clipboard (or the given texts) and insert the code at the cursor.
+ * Without an explicit `withNamespace`, the `namespaceMode` setting (possibly from a profile) decides.
+ */
+async function pasteJsonAsCSharp(editor: vscode.TextEditor, withNamespace: boolean | undefined, inputTexts?: string[]): Promise<void> {
+    // Read clipboard unless the input was provided (e.g. picked from files)
+    const texts = inputTexts ?? [await vscode.env.clipboard.readText()];
+    if (texts.every(text => !text.trim())) {
+        vscode.window.showErrorMessage(inputTexts ? 'Selected files are empty' : 'Clipboard is empty');
+        return;
     }
 
-    if (raw === 'withNamespace' || raw === 'choose') {
-        return raw;
+    // Get configuration: settings, the nearest json2csharp.json and the picked profile
+    const config = await resolveConfiguration(editor.document.uri);
+    if (!config) {
+        return;
     }
-    return 'withoutNamespace';
-}
+    const includeNamespace = withNamespace ?? resolveNamespaceMode(config) === 'withNamespace';
 
-async function pasteJsonAsCSharp(editor: vscode.TextEditor, withNamespace: boolean): Promise<void> {
-    // Read clipboard
-    const clipboardText = await vscode.env.clipboard.readText();
-    if (!clipboardText.trim()) {
-        vscode.window.showErrorMessage('Clipboard is empty');
-        return;
+    // Large input: optionally reduce arrays to their distinct element shapes before inference
+    const sampleArrays = await chooseArraySampling(texts, config);
+    if (sampleArrays === undefined) {
+        return; // User cancelled
     }
 
-    // Validate JSON
-    const validationResult = validateJson(clipboardText);
-    if (!validationResult.isValid) {
-        vscode.window.showErrorMessage(`Invalid JSON: ${validationResult.error}`);
+    // Validate JSON, repairing lenient input (comments, trailing commas, JS literals) when enabled
+    const samples = resolveJsonSamples(texts.filter(text => text.trim()), config.get<boolean>('lenientParsing', true));
+    if (!samples) {
         return;
     }
 
-    // Get configuration
-    const config = vscode.workspace.getConfiguration('json2csharp');
-    const alwaysUseRootClassName = config.get<boolean>('alwaysUseRootClassName', false);
-    const defaultRootClassName = config.get<string>('rootClassName', 'Root');
+    // Collect types already declared in the document (and project) to avoid name conflicts
+    const existingTypes = await scanExistingTypes(config, editor.document.uri, editor.document.getText());
 
-    // Determine root class name
-    let rootClassName: string;
-    let userChoseCustomName = false;
-    if (alwaysUseRootClassName) {
-        rootClassName = defaultRootClassName;
-    } else {
-        const userInput = await vscode.window.showInputBox({
-            prompt: 'Enter the root class name',
-            value: defaultRootClassName,
-            validateInput: (value) => {
-                if (!value.trim()) {
-                    return 'Class name cannot be empty';
-                }
-                if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(value)) {
-                    return 'Invalid C# class name';
-                }
-                return null;
-            }
-        });
+    // Determine root class name, suggesting one that doesn't conflict with existing types
+    const defaultRootClassName = config.get<string>('rootClassName', 'Root');
+    const rootClassName = await promptRootClassName(
+        config,
+        existingTypes ? uniqueTypeName(defaultRootClassName, existingTypes) : defaultRootClassName
+    );
+    if (!rootClassName) {
+        return; // User cancelled
+    }
 
-        if (!userInput) {
-            return; // User cancelled
+    // One file per type: write next to the current file, or into a chosen folder
+    if (config.get<string>('outputMode', 'singleFile') === 'filePerType') {
+        const targetFolder = config.get<string>('filePerTypeFolder', 'currentFolder') === 'currentFolder' && !editor.document.isUntitled
+            ? vscode.Uri.joinPath(editor.document.uri, '..')
+            : await pickTargetFolder(editor.document.uri);
+        if (targetFolder) {
+            await generateTypeFiles(samples, rootClassName.name, config, targetFolder, existingTypes, sampleArrays, includeNamespace);
         }
-        rootClassName = userInput;
-        userChoseCustomName = userInput !== defaultRootClassName;
+        return;
     }
 
-    // Get nullable style from settings
-    const nullableSetting = config.get<string>('nullableReferenceTypes', 'none');
-    const nullableStyle: NullableStyle | undefined =
-        nullableSetting === 'nullable' ? 'nullable' :
-            nullableSetting === 'defaultValues' ? 'defaults' : undefined;
-
-    // Get serialization attributes setting
-    const serializationSetting = config.get<string>('serializationAttributes', 'SystemTextJson');
-    const serializationAttributes: SerializationAttributes | undefined =
-        serializationSetting === 'SystemTextJson' ? 'SystemTextJson' :
-            serializationSetting === 'NewtonsoftJson' ? 'NewtonsoftJson' : undefined;
-
-    // Get attribute rendering mode
-    const alwaysRenderAttributes = config.get<string>('attributeRendering', 'whenDifferent') === 'always';
-
-    // Calculate namespace if requested
-    const namespace = withNamespace ? calculateNamespace(editor.document.uri.fsPath) : undefined;
-
     try {
         // Convert JSON to C#
-        const csharpCode = await convertJsonToCSharp(clipboardText, rootClassName, config, nullableStyle, namespace, serializationAttributes, alwaysRenderAttributes);
+        const conversion = await withCancellableProgress('Converting JSON to C#...', signal =>
+            convertForDocument(editor.document, samples, rootClassName.name, config, includeNamespace, existingTypes, { sampleArrays, signal }));
+        if (!conversion) {
+            return; // User cancelled
+        }
+        const { code, serializerContext } = conversion;
+
+        // Optionally rename the other generated types before inserting
+        const renames = await reviewTypeNames(config, code, existingTypes);
+        if (!renames) {
+            return; // User cancelled
+        }
+        const csharpCode = renameTypes(code, renames);
+        const finalRootName = renames.get(rootClassName.name) ?? rootClassName.name;
 
         // Insert at cursor position
-        if (userChoseCustomName) {
+        if (rootClassName.isCustom) {
             await editor.edit((editBuilder) => {
                 editBuilder.insert(editor.selection.active, csharpCode);
             });
         } else {
-            const snippetText = buildSnippetText(csharpCode, rootClassName);
+            const snippetText = buildSnippetText(csharpCode, finalRootName);
             await editor.insertSnippet(new vscode.SnippetString(snippetText), editor.selection.active);
         }
 
+        if (serializerContext) {
+            await registerSerializableTypes(serializerContext, finalRootName, config, editor.document.uri);
+        }
+
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
         vscode.window.showErrorMessage(`Failed to convert JSON: ${errorMessage}`);
     }
 }
 
+async function generateSampleJsonFromType(editor: vscode.TextEditor): Promise<void> {
+    const document = editor.document;
+    const code = document.getText();
+
+    // The first type in the selection, or the type under the cursor
+    const typeName = findTypeAtRange(code, document.offsetAt(editor.selection.start), document.offsetAt(editor.selection.end));
+    if (!typeName) {
+        vscode.window.showErrorMessage('No class, record or struct found at the cursor');
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('json2csharp');
+    const json = generateSampleJson(code, typeName, { namingPolicy: config.get<NamingPolicy>('namingPolicy', 'none') });
+
+    if (config.get<string>('sampleJsonOutput', 'newEditor') === 'clipboard') {
+        await vscode.env.clipboard.writeText(json);
+        vscode.window.setStatusBarMessage(`Copied sample JSON for ${typeName}`, 3000);
+        return;
+    }
+    const jsonDocument = await vscode.workspace.openTextDocument({ language: 'json', content: json });
+    await vscode.window.showTextDocument(jsonDocument, { viewColumn: vscode.ViewColumn.Beside });
+}
+
 export function activate(context: vscode.ExtensionContext) {
     // Main command: behavior depends on namespaceMode setting
     const pasteCommand = vscode.commands.registerCommand('json2csharp.paste', async () => {
@@ -121,9 +143,7 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.window.showErrorMessage('No active editor found');
             return;
         }
-        const config = vscode.workspace.getConfiguration('json2csharp');
-        const mode = resolveNamespaceMode(config);
-        await pasteJsonAsCSharp(editor, mode === 'withNamespace');
+        await pasteJsonAsCSharp(editor, undefined);
     });
 
     // Submenu command: paste without namespace
@@ -146,7 +166,51 @@ export function activate(context: vscode.ExtensionContext) {
         await pasteJsonAsCSharp(editor, true);
     });
 
-    context.subscriptions.push(pasteCommand, pasteClassesOnly, pasteWithNamespace);
+    // Merge several JSON files into one type model
+    const pasteFromFiles = vscode.commands.registerCommand('json2csharp.pasteFromFiles', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+        const texts = await pickJsonFiles();
+        if (!texts) {
+            return;
+        }
+        // Picking files may have moved focus; paste into the C# editor the command started from
+        const targetEditor = await vscode.window.showTextDocument(editor.document, {
+            viewColumn: editor.viewColumn,
+            selection: editor.selection,
+        });
+        await pasteJsonAsCSharp(targetEditor, undefined, texts);
+    });
+
+    // Preview the generated code with option toggles before inserting it
+    const pasteWithPreviewCommand = vscode.commands.registerCommand('json2csharp.pasteWithPreview', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+        await pasteWithPreview(context, editor);
+    });
+
+    // Reverse direction: sample JSON for the C# type under the cursor
+    const generateSampleJsonCommand = vscode.commands.registerCommand('json2csharp.generateSampleJson', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found');
+            return;
+        }
+        await generateSampleJsonFromType(editor);
+    });
+
+    // Generate a new .cs file from a JSON file (Explorer) or the active JSON editor
+    const generateFile = vscode.commands.registerCommand('json2csharp.generateFile', async (uri?: vscode.Uri) => {
+        await generateCSharpFile(uri instanceof vscode.Uri ? uri : undefined);
+    });
+
+    context.subscriptions.push(pasteCommand, pasteClassesOnly, pasteWithNamespace, pasteFromFiles, pasteWithPreviewCommand, generateSampleJsonCommand, generateFile);
 }
 
 export function deactivate() { }
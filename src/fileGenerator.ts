@@ -0,0 +1,306 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { convertJsonToCSharp, convertJsonToCSharpFiles, GeneratedTypeFile } from './converter';
+import { classNameFromFileName } from './core';
+import { chooseArraySampling, resolveJsonSamples } from './input';
+import { calculateNamespace } from './namespace';
+import { CONFIG_FILE_NAME } from './profiles';
+import { withCancellableProgress } from './progress';
+import { readProjectSettings } from './project';
+import { promptRootClassName, readGenerationSettings, readSettings, resolveConfiguration, reviewTypeNames } from './settings';
+import { DeclaredType, renameTypes, uniqueTypeName } from './typeNames';
+import { findSerializerContext, registerSerializableTypes, scanExistingTypes } from './workspaceTypes';
+
+/**
+ * JSON source for file generation
+ */
+interface JsonSource {
+    text: string;
+    /** File the JSON was read from, used for the default class name and target folder */
+    uri?: vscode.Uri;
+}
+
+/**
+ * Resolve the JSON source: the Explorer file, else the selection (or whole document)
+ * of the active JSON editor, else a file picked from an open dialog.
+ */
+async function resolveJsonSource(uri: vscode.Uri | undefined): Promise<JsonSource | undefined> {
+    if (uri) {
+        const content = await vscode.workspace.fs.readFile(uri);
+        return { text: new TextDecoder().decode(content), uri };
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    if (editor && (editor.document.languageId === 'json' || editor.document.languageId === 'jsonc')) {
+        const text = editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection);
+        return { text, uri: editor.document.isUntitled ? undefined : editor.document.uri };
+    }
+
+    const picked = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'JSON': ['json', 'jsonc'] },
+        openLabel: 'Generate C#',
+    });
+    if (!picked || picked.length === 0) {
+        return undefined;
+    }
+    const content = await vscode.workspace.fs.readFile(picked[0]);
+    return { text: new TextDecoder().decode(content), uri: picked[0] };
+}
+
+/**
+ * Let the user choose a target folder, starting at the given file's folder (or the first workspace folder)
+ */
+export async function pickTargetFolder(nearUri: vscode.Uri | undefined): Promise<vscode.Uri | undefined> {
+    const defaultUri = nearUri && nearUri.scheme === 'file'
+        ? vscode.Uri.joinPath(nearUri, '..')
+        : vscode.workspace.workspaceFolders?.[0]?.uri;
+
+    const folders = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri,
+        openLabel: 'Generate Here',
+        title: 'Select the target folder for the generated C# files',
+    });
+    return folders?.[0];
+}
+
+/**
+ * Check whether a file exists
+ */
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+    try {
+        await vscode.workspace.fs.stat(uri);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Quick pick item for a generated type file
+ */
+interface TypeFileItem extends vscode.QuickPickItem {
+    file: GeneratedTypeFile;
+    uri: vscode.Uri;
+}
+
+/**
+ * Show the generated files for confirmation. New files are selected by default;
+ * files that already exist are listed unselected and are only overwritten when the user selects them.
+ * Returns the confirmed items, or undefined if the user cancelled.
+ */
+async function confirmTypeFiles(files: GeneratedTypeFile[], targetFolder: vscode.Uri): Promise<TypeFileItem[] | undefined> {
+    const items: TypeFileItem[] = [];
+    for (const file of files) {
+        const uri = vscode.Uri.joinPath(targetFolder, `${file.typeName}.cs`);
+        const exists = await fileExists(uri);
+        items.push({
+            label: `${file.typeName}.cs`,
+            description: exists ? '$(warning) exists, select to overwrite' : undefined,
+            detail: file.code.split('\n').find(line => /\b(?:class|record|struct|enum)\s/.test(line))?.trim(),
+            picked: !exists,
+            file,
+            uri,
+        });
+    }
+
+    const quickPick = vscode.window.createQuickPick<TypeFileItem>();
+    quickPick.title = `Generate ${files.length} files in ${vscode.workspace.asRelativePath(targetFolder)}`;
+    quickPick.placeholder = 'Select the files to write, then press Enter';
+    quickPick.canSelectMany = true;
+    quickPick.matchOnDetail = true;
+    quickPick.items = items;
+    quickPick.selectedItems = items.filter(item => item.picked);
+
+    return new Promise(resolve => {
+        let accepted = false;
+        quickPick.onDidAccept(() => {
+            accepted = true;
+            resolve([...quickPick.selectedItems]);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            if (!accepted) {
+                resolve(undefined);
+            }
+            quickPick.dispose();
+        });
+        quickPick.show();
+    });
+}
+
+/**
+ * Generate one file per class, record or enum in the target folder.
+ * The namespace is calculated for the target folder unless `includeNamespace` is false; usings are always
+ * added so every file compiles on its own. The generated files are confirmed before writing.
+ * With `sampleArrays`, arrays are reduced to their distinct element shapes before inference.
+ */
+export async function generateTypeFiles(
+    samples: string[],
+    rootClassName: string,
+    config: vscode.WorkspaceConfiguration,
+    targetFolder: vscode.Uri,
+    existingTypes?: Map<string, DeclaredType>,
+    sampleArrays: boolean = false,
+    includeNamespace: boolean = true
+): Promise<void> {
+    const rootUri = vscode.Uri.joinPath(targetFolder, `${rootClassName}.cs`);
+    const { nullableStyle, serializationAttributes, alwaysRenderAttributes, languageVersion, frameworkVersion } = readGenerationSettings(config, readProjectSettings(rootUri.fsPath));
+    const namespace = includeNamespace ? calculateNamespace(rootUri.fsPath) : undefined;
+    const serializerContext = await findSerializerContext(config, serializationAttributes, rootUri);
+
+    try {
+        const generatedFiles = await withCancellableProgress('Converting JSON to C#...', signal =>
+            convertJsonToCSharpFiles(samples, rootClassName, readSettings(config), nullableStyle, namespace, serializationAttributes, alwaysRenderAttributes, {
+                existingTypes,
+                overrides: serializerContext ? { generateSerializerContext: false } : undefined,
+                languageVersion,
+                frameworkVersion,
+                sampleArrays,
+                signal,
+            }));
+        if (!generatedFiles) {
+            return; // User cancelled
+        }
+
+        // Optionally rename the other generated types (and their files) before writing
+        const renames = await reviewTypeNames(config, generatedFiles.map(file => file.code).join('\n\n'), existingTypes);
+        if (!renames) {
+            return; // User cancelled
+        }
+        const finalRootName = renames.get(rootClassName) ?? rootClassName;
+        const files = generatedFiles.map(file => ({
+            typeName: renames.get(file.typeName) ?? file.typeName,
+            code: renameTypes(file.code, renames),
+        }));
+        const confirmed = await confirmTypeFiles(files, targetFolder);
+        if (!confirmed || confirmed.length === 0) {
+            return;
+        }
+
+        for (const item of confirmed) {
+            await vscode.workspace.fs.writeFile(item.uri, new TextEncoder().encode(`${item.file.code}\n`));
+        }
+
+        if (serializerContext) {
+            await registerSerializableTypes(serializerContext, finalRootName, config);
+        }
+
+        const rootItem = confirmed.find(item => item.file.typeName === finalRootName) ?? confirmed[0];
+        await vscode.window.showTextDocument(rootItem.uri);
+        vscode.window.setStatusBarMessage(`$(check) Generated ${confirmed.length} C# file${confirmed.length === 1 ? '' : 's'}`, 5000);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        vscode.window.showErrorMessage(`Failed to generate C# files: ${errorMessage}`);
+    }
+}
+
+/**
+ * Generate a new .cs file (or one file per type) from a JSON file or the active JSON editor.
+ * The namespace is calculated for the target file path, and usings are always included
+ * so the generated file compiles on its own. Settings from the target folder's `json2csharp.json`
+ * and the picked profile apply to every step, including large input sampling and lenient parsing.
+ */
+export async function generateCSharpFile(uri?: vscode.Uri): Promise<void> {
+    const source = await resolveJsonSource(uri);
+    if (!source) {
+        return;
+    }
+    if (!source.text.trim()) {
+        vscode.window.showErrorMessage('JSON source is empty');
+        return;
+    }
+
+    const targetFolder = await pickTargetFolder(source.uri);
+    if (!targetFolder) {
+        return;
+    }
+
+    // Settings for the target folder: the nearest json2csharp.json and the picked profile
+    const config = await resolveConfiguration(vscode.Uri.joinPath(targetFolder, CONFIG_FILE_NAME));
+    if (!config) {
+        return;
+    }
+
+    // Large input: optionally reduce arrays to their distinct element shapes before inference
+    const sampleArrays = await chooseArraySampling([source.text], config);
+    if (sampleArrays === undefined) {
+        return; // User cancelled
+    }
+
+    // Validate JSON, repairing lenient input (comments, trailing commas, JS literals) when enabled
+    const samples = resolveJsonSamples([source.text], config.get<boolean>('lenientParsing', true));
+    if (!samples) {
+        return;
+    }
+
+    // Default the root class name to the JSON file name
+    const defaultRootClassName = (source.uri && classNameFromFileName(source.uri.fsPath))
+        ?? config.get<string>('rootClassName', 'Root');
+
+    // Collect types already declared in the project to avoid name conflicts.
+    // The default target file is excluded, since regenerating it replaces its types.
+    const existingTypes = await scanExistingTypes(config, vscode.Uri.joinPath(targetFolder, `${defaultRootClassName}.cs`));
+
+    const rootClassName = await promptRootClassName(
+        config,
+        existingTypes ? uniqueTypeName(defaultRootClassName, existingTypes) : defaultRootClassName
+    );
+    if (!rootClassName) {
+        return; // User cancelled
+    }
+
+    if (config.get<string>('outputMode', 'singleFile') === 'filePerType') {
+        await generateTypeFiles(samples, rootClassName.name, config, targetFolder, existingTypes, sampleArrays);
+        return;
+    }
+
+    const targetUri = vscode.Uri.joinPath(targetFolder, `${rootClassName.name}.cs`);
+    if (await fileExists(targetUri)) {
+        const overwrite = await vscode.window.showWarningMessage(
+            `${path.basename(targetUri.fsPath)} already exists. Overwrite it?`,
+            { modal: true },
+            'Overwrite'
+        );
+        if (overwrite !== 'Overwrite') {
+            return;
+        }
+    }
+
+    const { nullableStyle, serializationAttributes, alwaysRenderAttributes, languageVersion, frameworkVersion } = readGenerationSettings(config, readProjectSettings(targetUri.fsPath));
+    const namespace = calculateNamespace(targetUri.fsPath);
+    const serializerContext = await findSerializerContext(config, serializationAttributes, targetUri);
+
+    try {
+        const code = await withCancellableProgress('Converting JSON to C#...', signal =>
+            convertJsonToCSharp(samples, rootClassName.name, readSettings(config), nullableStyle, namespace, serializationAttributes, alwaysRenderAttributes, {
+                existingTypes,
+                overrides: serializerContext ? { generateSerializerContext: false } : undefined,
+                languageVersion,
+                frameworkVersion,
+                sampleArrays,
+                signal,
+            }));
+        if (code === undefined) {
+            return; // User cancelled
+        }
+
+        // Optionally rename the other generated types before writing
+        const renames = await reviewTypeNames(config, code, existingTypes);
+        if (!renames) {
+            return; // User cancelled
+        }
+        const csharpCode = renameTypes(code, renames);
+        await vscode.workspace.fs.writeFile(targetUri, new TextEncoder().encode(`${csharpCode}\n`));
+        if (serializerContext) {
+            await registerSerializableTypes(serializerContext, renames.get(rootClassName.name) ?? rootClassName.name, config);
+        }
+        await vscode.window.showTextDocument(targetUri);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        vscode.window.showErrorMessage(`Failed to generate C# file: ${errorMessage}`);
+    }
+}
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { parseJsonSamples } from './core';
+
+/**
+ * Resolve the input texts into JSON samples. Each text may hold several concatenated
+ * documents or newline-delimited JSON. Every document is validated as strict JSON; when
+ * lenient parsing is enabled, invalid documents are repaired and the repairs are reported
+ * in the status bar. Returns undefined (after showing an error) if any document is unusable.
+ */
+export function resolveJsonSamples(texts: string[], lenientParsing: boolean): string[] | undefined {
+    const { samples, repairs, error } = parseJsonSamples(texts, lenientParsing);
+    if (error) {
+        vscode.window.showErrorMessage(error);
+        return undefined;
+    }
+
+    if (repairs.length > 0) {
+        vscode.window.setStatusBarMessage(`$(wrench) Repaired JSON: ${repairs.join(', ')}`, 5000);
+    }
+    return samples;
+}
+
+/**
+ * Decide whether to reduce the arrays of the input to one element per distinct shape before inference.
+ * Inputs under `largeInputThreshold` KB are converted in full; larger ones as `largeInputSampling` says,
+ * asking the user by default. Returns undefined if the user cancelled.
+ */
+export async function chooseArraySampling(texts: string[], config: vscode.WorkspaceConfiguration): Promise<boolean | undefined> {
+    const threshold = config.get<number>('largeInputThreshold', 1024);
+    const mode = config.get<string>('largeInputSampling', 'ask');
+    const size = texts.reduce((total, text) => total + text.length, 0);
+    if (threshold <= 0 || size < threshold * 1024 || mode === 'full') {
+        return false;
+    }
+    if (mode === 'sample') {
+        return true;
+    }
+
+    const sampleItem = 'Sample Arrays';
+    const fullItem = 'Convert Everything';
+    const choice = await vscode.window.showInformationMessage(
+        `The JSON is ${(size / (1024 * 1024)).toFixed(1)} MB. Reduce its arrays to one element per distinct shape to convert faster? The generated types stay the same.`,
+        { modal: true },
+        sampleItem,
+        fullItem
+    );
+    return choice === undefined ? undefined : choice === sampleItem;
+}
+
+/**
+ * Let the user pick one or more JSON files (open editors first, or browse the file system)
+ * and return their contents. Returns undefined if the user cancelled.
+ */
+export async function pickJsonFiles(): Promise<string[] | undefined> {
+    const browseItem: vscode.QuickPickItem = { label: '$(folder-opened) Browse...', alwaysShow: true };
+    const openDocuments = vscode.workspace.textDocuments.filter(doc =>
+        doc.languageId === 'json' || doc.languageId === 'jsonc' || doc.uri.fsPath.endsWith('.json'));
+    const documentItems = openDocuments.map(doc => ({
+        label: vscode.workspace.asRelativePath(doc.uri),
+        document: doc,
+    }));
+
+    let picked: readonly (vscode.QuickPickItem & { document?: vscode.TextDocument })[] = [];
+    if (documentItems.length > 0) {
+        const selection = await vscode.window.showQuickPick([...documentItems, browseItem], {
+            canPickMany: true,
+            placeHolder: 'Select the JSON samples to merge into one type model',
+        });
+        if (!selection || selection.length === 0) {
+            return undefined;
+        }
+        picked = selection;
+    }
+
+    const texts = picked.filter(item => item.document).map(item => item.document!.getText());
+
+    if (documentItems.length === 0 || picked.includes(browseItem)) {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            filters: { 'JSON': ['json', 'jsonc', 'ndjson', 'jsonl'] },
+            openLabel: 'Use as JSON samples',
+        });
+        if (!uris) {
+            return undefined;
+        }
+        for (const uri of uris) {
+            const content = await vscode.workspace.fs.readFile(uri);
+            texts.push(new TextDecoder().decode(content));
+        }
+    }
+
+    return texts.length > 0 ? texts : undefined;
+}
@@ -33,18 +33,17 @@ function escapeCSharpKeyword(name: string): string {
 }
 
 /**
- * Find the nearest .csproj file by walking up parent directories
- * Returns the full path to the .csproj file, or undefined if not found
+ * Walk up the parent directories of a file, starting with its own directory,
+ * and return the first path `find` returns for a directory (undefined if none)
  */
-function findNearestCsproj(filePath: string): string | undefined {
+export function findUpwards(filePath: string, find: (directory: string) => string | undefined): string | undefined {
     let currentDir = path.dirname(filePath);
     const root = path.parse(currentDir).root;
 
     while (currentDir !== root) {
-        const files = fs.readdirSync(currentDir);
-        const csproj = files.find(f => f.endsWith('.csproj'));
-        if (csproj) {
-            return path.join(currentDir, csproj);
+        const found = find(currentDir);
+        if (found) {
+            return found;
         }
         currentDir = path.dirname(currentDir);
     }
@@ -52,6 +51,25 @@ function findNearestCsproj(filePath: string): string | undefined {
     return undefined;
 }
 
+/**
+ * Find the nearest .csproj file by walking up parent directories
+ * Returns the full path to the .csproj file, or undefined if not found
+ */
+export function findNearestCsproj(filePath: string): string | undefined {
+    return findUpwards(filePath, directory => {
+        const csproj = fs.readdirSync(directory).find(f => f.endsWith('.csproj'));
+        return csproj && path.join(directory, csproj);
+    });
+}
+
+/**
+ * Find the directory of the nearest .csproj file for a file path
+ */
+export function findProjectDirectory(filePath: string): string | undefined {
+    const csprojPath = findNearestCsproj(filePath);
+    return csprojPath ? path.dirname(csprojPath) : undefined;
+}
+
 /**
  * Extract the RootNamespace from a .csproj file
  * Falls back to the project filename (without extension) if not specified
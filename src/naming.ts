@@ -0,0 +1,163 @@
+/**
+ * Naming policy applied by the serializer to C# property names
+ * (JsonSerializerOptions.PropertyNamingPolicy / Newtonsoft NamingStrategy)
+ */
+export type NamingPolicy = 'none' | 'camelCase' | 'snake_case_lower' | 'snake_case_upper' | 'kebab-case-lower' | 'kebab-case-upper';
+
+/**
+ * Split a PascalCase C# identifier into words the way System.Text.Json's separator policies do:
+ * a new word starts at an uppercase letter following a lowercase letter or digit, and at the last
+ * uppercase letter of an acronym that is followed by a lowercase letter (`HTMLValue` → `HTML`, `Value`).
+ */
+export function splitWords(name: string): string[] {
+    const words: string[] = [];
+    let current = '';
+
+    for (let i = 0; i < name.length; i++) {
+        const ch = name[i];
+        if (ch === '_' || ch === '-' || ch === ' ') {
+            if (current) {
+                words.push(current);
+            }
+            current = '';
+            continue;
+        }
+
+        const prev = name[i - 1] ?? '';
+        const next = name[i + 1] ?? '';
+        const isUpper = /[A-Z]/.test(ch);
+        const startsWord = isUpper && current.length > 0
+            && (/[a-z0-9]/.test(prev) || (/[A-Z]/.test(prev) && /[a-z]/.test(next)));
+        if (startsWord) {
+            words.push(current);
+            current = '';
+        }
+        current += ch;
+    }
+    if (current) {
+        words.push(current);
+    }
+    return words;
+}
+
+/**
+ * Convert a C# property name with System.Text.Json's camel case policy:
+ * the leading run of uppercase letters is lowercased (`URLValue` → `urlValue`, `ID` → `id`)
+ */
+function toCamelCase(name: string): string {
+    const leading = /^[A-Z]+/.exec(name)?.[0] ?? '';
+    if (leading.length <= 1 || leading.length === name.length) {
+        return leading.toLowerCase() + name.slice(leading.length);
+    }
+    // Keep the last capital of an acronym when it starts the next word
+    const keep = /[a-z]/.test(name[leading.length] ?? '') ? 1 : 0;
+    return leading.slice(0, leading.length - keep).toLowerCase() + name.slice(leading.length - keep);
+}
+
+/**
+ * Apply a naming policy to a C# property name, producing the JSON key the serializer would use.
+ * Returns the name unchanged for the 'none' policy.
+ */
+export function applyNamingPolicy(name: string, policy: NamingPolicy): string {
+    const bare = name.replace(/^@/, '');
+    switch (policy) {
+        case 'camelCase':
+            return toCamelCase(bare);
+        case 'snake_case_lower':
+            return splitWords(bare).join('_').toLowerCase();
+        case 'snake_case_upper':
+            return splitWords(bare).join('_').toUpperCase();
+        case 'kebab-case-lower':
+            return splitWords(bare).join('-').toLowerCase();
+        case 'kebab-case-upper':
+            return splitWords(bare).join('-').toUpperCase();
+        default:
+            return bare;
+    }
+}
+
+/**
+ * System.Text.Json `JsonNamingPolicy` member for a naming policy
+ */
+export const SYSTEM_TEXT_JSON_POLICIES: Record<Exclude<NamingPolicy, 'none'>, string> = {
+    'camelCase': 'CamelCase',
+    'snake_case_lower': 'SnakeCaseLower',
+    'snake_case_upper': 'SnakeCaseUpper',
+    'kebab-case-lower': 'KebabCaseLower',
+    'kebab-case-upper': 'KebabCaseUpper',
+};
+
+/**
+ * Newtonsoft.Json naming strategy class for a naming policy (Newtonsoft has no uppercase variants)
+ */
+export const NEWTONSOFT_STRATEGIES: Partial<Record<Exclude<NamingPolicy, 'none'>, string>> = {
+    'camelCase': 'CamelCaseNamingStrategy',
+    'snake_case_lower': 'SnakeCaseNamingStrategy',
+    'kebab-case-lower': 'KebabCaseNamingStrategy',
+};
+
+/**
+ * English plurals that suffix rules get wrong (plural → singular)
+ */
+const IRREGULAR_PLURALS: Record<string, string> = {
+    people: 'person', children: 'child', men: 'man', women: 'woman', feet: 'foot', teeth: 'tooth', geese: 'goose', mice: 'mouse',
+    criteria: 'criterion', phenomena: 'phenomenon', indices: 'index', matrices: 'matrix', vertices: 'vertex', appendices: 'appendix',
+    analyses: 'analysis', axes: 'axis', crises: 'crisis', theses: 'thesis', diagnoses: 'diagnosis', parentheses: 'parenthesis',
+    leaves: 'leaf', halves: 'half', shelves: 'shelf', wolves: 'wolf', knives: 'knife', lives: 'life', wives: 'wife', selves: 'self',
+    thieves: 'thief', loaves: 'loaf', calves: 'calf', quizzes: 'quiz',
+    statuses: 'status', buses: 'bus', viruses: 'virus', campuses: 'campus', bonuses: 'bonus', aliases: 'alias', canvases: 'canvas',
+    atlases: 'atlas', censuses: 'census', radii: 'radius', cacti: 'cactus', fungi: 'fungus', syllabi: 'syllabus', alumni: 'alumnus',
+    caches: 'cache', niches: 'niche', movies: 'movie', cookies: 'cookie', zombies: 'zombie', calories: 'calorie', rookies: 'rookie',
+    shoes: 'shoe', toes: 'toe', canoes: 'canoe', heroes: 'hero', potatoes: 'potato', tomatoes: 'tomato', echoes: 'echo', vetoes: 'veto',
+};
+
+/**
+ * Nouns without a distinct singular; element types get an `Item` suffix instead (`data` → `DataItem`)
+ */
+const UNCOUNTABLE_NOUNS = new Set([
+    'data', 'metadata', 'info', 'information', 'equipment', 'news', 'series', 'species', 'feedback', 'software', 'hardware',
+    'media', 'content', 'staff', 'evidence', 'advice', 'money', 'traffic', 'sheep', 'fish', 'deer', 'aircraft',
+]);
+
+/**
+ * Singular of a lowercase English word, or undefined when the word has no distinct singular
+ */
+function singularWord(word: string): string | undefined {
+    if (UNCOUNTABLE_NOUNS.has(word)) {
+        return undefined;
+    }
+    if (word in IRREGULAR_PLURALS) {
+        return IRREGULAR_PLURALS[word];
+    }
+    if (/[^aeiou]ies$/.test(word) && word.length > 4) {
+        return word.slice(0, -3) + 'y';
+    }
+    if (/(?:ss|sh|ch|x|zz)es$/.test(word)) {
+        return word.slice(0, -2);
+    }
+    if (/(?:ss|us|is)$/.test(word)) {
+        return word;
+    }
+    return word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+/**
+ * Name for the element type of a collection under a JSON key: the last word is singularized
+ * with English rules, keeping its casing (`line_items` → `line_item`, `Categories` → `Category`, `people` → `person`).
+ * Uncountable words get an `Item` suffix instead (`data` → `dataItem`).
+ */
+export function singularTypeName(key: string): string {
+    const lastWord = /(?:[A-Z]?[a-z]+|[A-Z]+)$/.exec(key)?.[0];
+    if (!lastWord) {
+        return key;
+    }
+    const prefix = key.slice(0, key.length - lastWord.length);
+    const singular = singularWord(lastWord.toLowerCase());
+    if (singular === undefined) {
+        return `${key}Item`;
+    }
+    const cased = lastWord === lastWord.toUpperCase() && lastWord.length > 1 ? singular.toUpperCase()
+        : /^[A-Z]/.test(lastWord) ? singular[0].toUpperCase() + singular.slice(1)
+            : singular;
+    return prefix + cased;
+}
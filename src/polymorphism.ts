@@ -0,0 +1,370 @@
+import type { SerializationAttributes } from './converter';
+import { singularTypeName } from './naming';
+import { splitTypeDeclarations, uniqueTypeName } from './typeNames';
+
+/**
+ * A derived type of a polymorphic array: the elements with one discriminator value
+ */
+export interface PolymorphicVariant {
+    typeName: string;
+    discriminatorValue: string;
+    /** Elements with this discriminator value (without the discriminator), tagged with the variant marker */
+    samples: string[];
+}
+
+/**
+ * An array whose object elements share a string discriminator property
+ * and have different shapes per discriminator value
+ */
+export interface PolymorphicArray {
+    /** Marker property replacing the elements in the samples; the class quicktype generates for it becomes the base type */
+    marker: string;
+    /** JSON key of the discriminator property */
+    discriminator: string;
+    variants: PolymorphicVariant[];
+}
+
+/**
+ * Samples with polymorphic array elements replaced by markers, and the arrays found
+ */
+export interface PolymorphicSamples {
+    samples: string[];
+    arrays: PolymorphicArray[];
+}
+
+/**
+ * JSON keys recognized as type discriminators, in order of preference
+ */
+const DISCRIMINATOR_KEYS = ['$type', 'type', 'kind', '@type', 'discriminator'];
+
+/**
+ * Property added to every variant sample. Each variant gets a differently nested value (`true`, `[true]`, ...),
+ * so quicktype can't combine variants with similar properties into one class.
+ */
+const VARIANT_MARKER = 'Json2CSharpVariant';
+
+/**
+ * Prefix of the property replacing polymorphic array elements
+ */
+const ARRAY_MARKER_PREFIX = 'Json2CSharpPolymorphic';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * PascalCase type name for a discriminator value (`line_item` → `LineItem`)
+ */
+function typeNameForValue(value: string): string {
+    const name = value
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(part => part.length > 0)
+        .map(part => part[0].toUpperCase() + part.slice(1))
+        .join('');
+    return /^[a-zA-Z_]/.test(name) ? name : `Type${name}`;
+}
+
+/**
+ * Add the names quicktype gives the classes of a value's objects: the PascalCased JSON key,
+ * and for array elements also its singular (`line_items` → `LineItem`)
+ */
+function addObjectTypeNames(value: unknown, key: string | undefined, isElement: boolean, names: Set<string>): void {
+    if (Array.isArray(value)) {
+        value.forEach(element => addObjectTypeNames(element, key, true, names));
+    } else if (isObject(value)) {
+        if (key !== undefined) {
+            names.add(typeNameForValue(key));
+            if (isElement) {
+                names.add(typeNameForValue(singularTypeName(key)));
+            }
+        }
+        Object.entries(value).forEach(([childKey, child]) => addObjectTypeNames(child, childKey, false, names));
+    }
+}
+
+/**
+ * Find the discriminator of a group of array elements: a key present with a string value in every element,
+ * with at least two distinct values whose elements have structurally different property sets, each with a property
+ * the other lacks. Values whose properties only differ by missing ones (optional fields) don't make a hierarchy.
+ */
+function findDiscriminator(elements: unknown[]): string | undefined {
+    if (elements.length < 2 || !elements.every(isObject)) {
+        return undefined;
+    }
+    const objects = elements as JsonObject[];
+
+    for (const key of DISCRIMINATOR_KEYS) {
+        if (!objects.every(element => typeof element[key] === 'string')) {
+            continue;
+        }
+        const shapes = new Map<string, Set<string>>();
+        for (const element of objects) {
+            const value = element[key] as string;
+            const shape = shapes.get(value) ?? new Set<string>();
+            Object.keys(element).filter(k => k !== key).forEach(k => shape.add(k));
+            shapes.set(value, shape);
+        }
+        const shapeList = [...shapes.values()];
+        const isSubset = (a: Set<string>, b: Set<string>) => [...a].every(k => b.has(k));
+        const differ = shapeList.some((shape, i) => shapeList.slice(i + 1).some(other => !isSubset(shape, other) && !isSubset(other, shape)));
+        if (differ) {
+            return key;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Find arrays of objects that differ in shape by a discriminator property (`type`, `kind`, `$type`, ...)
+ * and take their elements out of the samples: each array is replaced by a single marker object,
+ * and the elements become samples of one variant type per discriminator value.
+ * Elements at the same path are grouped across all samples, top-level arrays included. Arrays at different paths
+ * with the same discriminator and values share one marker, so they get the same base and variant types.
+ * Variant names avoid the root class name, `reservedNames` and the names of the other generated classes.
+ */
+export function extractPolymorphicArrays(samples: string[], rootClassName: string, reservedNames: string[] = []): PolymorphicSamples {
+    const documents = samples.map(sample => JSON.parse(sample) as unknown);
+
+    // Group array elements by their path in the document
+    const groups = new Map<string, unknown[]>();
+    const collect = (value: unknown, path: string) => {
+        if (Array.isArray(value)) {
+            const group = groups.get(path) ?? [];
+            group.push(...value);
+            groups.set(path, group);
+            value.forEach(element => collect(element, `${path}[]`));
+        } else if (isObject(value)) {
+            Object.entries(value).forEach(([key, child]) => collect(child, `${path}/${JSON.stringify(key)}`));
+        }
+    };
+    documents.forEach(document => collect(document, ''));
+
+    // Path → discriminator, and the discriminator with its sorted values as the key of the array's types
+    const discriminators = new Map<string, { discriminator: string; key: string }>();
+    for (const [path, elements] of groups) {
+        const discriminator = findDiscriminator(elements);
+        if (discriminator) {
+            const values = [...new Set((elements as JsonObject[]).map(element => element[discriminator] as string))].sort();
+            discriminators.set(path, { discriminator, key: JSON.stringify([discriminator, ...values]) });
+        }
+    }
+    if (discriminators.size === 0) {
+        return { samples, arrays: [] };
+    }
+
+    // Replace polymorphic arrays by markers, collecting their (rewritten) elements per discriminator value
+    const arrays = new Map<string, { marker: string; discriminator: string; buckets: Map<string, JsonObject[]> }>();
+    const rewrite = (value: unknown, path: string): unknown => {
+        if (Array.isArray(value)) {
+            const elements = value.map(element => rewrite(element, `${path}[]`));
+            const found = discriminators.get(path);
+            if (!found) {
+                return elements;
+            }
+            const { discriminator, key } = found;
+            let array = arrays.get(key);
+            if (!array) {
+                array = { marker: `${ARRAY_MARKER_PREFIX}${arrays.size}`, discriminator, buckets: new Map() };
+                arrays.set(key, array);
+            }
+            for (const element of elements as JsonObject[]) {
+                const { [discriminator]: discriminatorValue, ...rest } = element;
+                const bucket = array.buckets.get(discriminatorValue as string) ?? [];
+                bucket.push(rest);
+                array.buckets.set(discriminatorValue as string, bucket);
+            }
+            return [{ [array.marker]: true }];
+        }
+        if (isObject(value)) {
+            return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, rewrite(child, `${path}/${JSON.stringify(key)}`)]));
+        }
+        return value;
+    };
+    const rewritten = documents.map(document => rewrite(document, ''));
+
+    // One variant per discriminator value, with a unique type name and variant marker. Variants are top-level
+    // types, whose names quicktype keeps, so they must not take the names of the classes quicktype generates
+    const takenNames = new Set([rootClassName, ...reservedNames]);
+    rewritten.forEach(document => addObjectTypeNames(document, undefined, false, takenNames));
+    for (const { buckets } of arrays.values()) {
+        [...buckets.values()].flat().forEach(element => addObjectTypeNames(element, undefined, false, takenNames));
+    }
+    let variantIndex = 0;
+    const result: PolymorphicArray[] = [];
+    for (const { marker, discriminator, buckets } of arrays.values()) {
+        const variants: PolymorphicVariant[] = [];
+        for (const [discriminatorValue, elements] of buckets) {
+            const typeName = uniqueTypeName(typeNameForValue(discriminatorValue), takenNames);
+            takenNames.add(typeName);
+
+            let markerValue: unknown = true;
+            for (let depth = 0; depth < variantIndex; depth++) {
+                markerValue = [markerValue];
+            }
+            variantIndex++;
+
+            variants.push({
+                typeName,
+                discriminatorValue,
+                samples: elements.map(element => JSON.stringify({ [VARIANT_MARKER]: markerValue, ...element })),
+            });
+        }
+        result.push({ marker, discriminator, variants });
+    }
+
+    return { samples: rewritten.map(document => JSON.stringify(document)), arrays: result };
+}
+
+/**
+ * Split a class declaration into its header lines and property blocks
+ * (a property line with its leading attribute and doc comment lines)
+ */
+function splitClass(code: string): { header: string[]; blocks: string[] } {
+    const lines = code.split('\n');
+    const open = lines.findIndex(line => line.trim() === '{');
+    const close = lines.map(line => line.trim()).lastIndexOf('}');
+    const blocks: string[] = [];
+    let current: string[] = [];
+    for (const line of lines.slice(open + 1, close)) {
+        if (!line.trim()) {
+            continue;
+        }
+        current.push(line);
+        if (!/^\s*(?:\[|\/\/\/)/.test(line)) {
+            blocks.push(current.join('\n'));
+            current = [];
+        }
+    }
+    return { header: lines.slice(0, open), blocks };
+}
+
+/**
+ * Join property blocks into a class body, with blank lines between blocks when quicktype uses them
+ */
+function buildClass(header: string[], blocks: string[], spaced: boolean): string {
+    return [...header, '{', blocks.join(spaced ? '\n\n' : '\n'), '}'].filter(line => line !== '').join('\n');
+}
+
+/**
+ * PascalCase C# property name for the discriminator key (`$type` → `Type`)
+ */
+function discriminatorPropertyName(discriminator: string): string {
+    return typeNameForValue(discriminator.replace(/^[$@]/, ''));
+}
+
+/**
+ * Newtonsoft.Json converter creating the derived type named by the discriminator, then populating it
+ */
+function buildNewtonsoftConverter(baseName: string, array: PolymorphicArray, nullable: boolean): string {
+    const optional = nullable ? '?' : '';
+    const discriminatorKey = JSON.stringify(array.discriminator);
+    return [
+        `public class ${baseName}Converter : JsonConverter`,
+        '{',
+        `    public override bool CanConvert(Type objectType) => objectType == typeof(${baseName});`,
+        '',
+        '    public override bool CanWrite => false;',
+        '',
+        `    public override object${optional} ReadJson(JsonReader reader, Type objectType, object${optional} existingValue, JsonSerializer serializer)`,
+        '    {',
+        '        if (reader.TokenType == JsonToken.Null)',
+        '        {',
+        '            return null;',
+        '        }',
+        '',
+        '        var item = JObject.Load(reader);',
+        `        ${baseName} target;`,
+        `        switch ((string${optional})item[${discriminatorKey}])`,
+        '        {',
+        ...array.variants.map(variant => `            case ${JSON.stringify(variant.discriminatorValue)}: target = new ${variant.typeName}(); break;`),
+        `            default: throw new JsonSerializationException("Unknown ${array.discriminator}: " + item[${discriminatorKey}]);`,
+        '        }',
+        '        serializer.Populate(item.CreateReader(), target);',
+        '        return target;',
+        '    }',
+        '',
+        `    public override void WriteJson(JsonWriter writer, object${optional} value, JsonSerializer serializer)`,
+        '    {',
+        '        throw new NotSupportedException();',
+        '    }',
+        '}',
+    ].join('\n');
+}
+
+/**
+ * Turn the classes quicktype generated for polymorphic arrays into a type hierarchy:
+ * the marker class becomes an abstract base type with the properties all variants share,
+ * and each variant class derives from it with its remaining properties.
+ * - System.Text.Json: `[JsonPolymorphic]` and `[JsonDerivedType]` on the base type
+ * - Newtonsoft.Json: the discriminator property on the base type and a `JsonConverter` creating the derived type
+ * - No serializer: the discriminator property on the base type
+ */
+export function applyPolymorphism(
+    code: string,
+    arrays: PolymorphicArray[],
+    serializationAttributes: SerializationAttributes | undefined,
+    nullable: boolean
+): string {
+    let output = code;
+
+    for (const array of arrays) {
+        const declarations = splitTypeDeclarations(output);
+        const placeholder = declarations.find(declaration => new RegExp(`\\b${array.marker}\\b`).test(declaration.code));
+        const variantDeclarations = array.variants.map(variant => declarations.find(declaration => declaration.typeName === variant.typeName));
+        if (!placeholder || variantDeclarations.some(declaration => declaration === undefined)) {
+            continue;
+        }
+        const baseName = placeholder.typeName;
+        // quicktype separates properties with blank lines when it renders attributes
+        const spaced = variantDeclarations.some(declaration => /\n[ \t]*\n/.test(declaration!.code));
+
+        // Properties identical in every variant move to the base type
+        const variantClasses = variantDeclarations.map(declaration => {
+            const { header, blocks } = splitClass(declaration!.code);
+            return { header, blocks: blocks.filter(block => !block.includes(VARIANT_MARKER)) };
+        });
+        // Sample values in doc comments differ between variants, so they don't count
+        const blockKey = (block: string) => block.split('\n').filter(line => !/^\s*\/\/\/ <example>/.test(line)).join('\n');
+        const commonKeys = new Set(variantClasses[0].blocks.map(blockKey)
+            .filter(key => variantClasses.every(variant => variant.blocks.some(block => blockKey(block) === key))));
+        const commonBlocks = variantClasses[0].blocks.filter(block => commonKeys.has(blockKey(block)));
+
+        const baseHeader: string[] = [];
+        const baseBlocks: string[] = [];
+        if (serializationAttributes === 'SystemTextJson') {
+            baseHeader.push(array.discriminator === '$type'
+                ? '[JsonPolymorphic]'
+                : `[JsonPolymorphic(TypeDiscriminatorPropertyName = ${JSON.stringify(array.discriminator)})]`);
+            for (const variant of array.variants) {
+                baseHeader.push(`[JsonDerivedType(typeof(${variant.typeName}), ${JSON.stringify(variant.discriminatorValue)})]`);
+            }
+        } else {
+            // The serializer doesn't write the discriminator itself, so keep it as a property
+            const indent = commonBlocks[0]?.match(/^\s*/)?.[0] ?? '    ';
+            const attribute = serializationAttributes === 'NewtonsoftJson' ? `${indent}[JsonProperty(${JSON.stringify(array.discriminator)})]\n` : '';
+            baseBlocks.push(`${attribute}${indent}public string ${discriminatorPropertyName(array.discriminator)} { get; set; }`);
+            if (serializationAttributes === 'NewtonsoftJson') {
+                baseHeader.push(`[JsonConverter(typeof(${baseName}Converter))]`);
+            }
+        }
+        baseHeader.push(`public abstract class ${baseName}`);
+        baseBlocks.push(...commonBlocks);
+
+        let baseCode = buildClass(baseHeader, baseBlocks, spaced);
+        if (serializationAttributes === 'NewtonsoftJson') {
+            baseCode += `\n\n${buildNewtonsoftConverter(baseName, array, nullable)}`;
+        }
+        output = output.replace(placeholder.code, () => baseCode);
+
+        variantDeclarations.forEach((declaration, i) => {
+            const { header, blocks } = variantClasses[i];
+            const derivedHeader = header.map(line => line.replace(/^(\s*(?:public\s+)?(?:partial\s+)?class\s+\w+)\s*$/, `$1 : ${baseName}`));
+            const derivedBlocks = blocks.filter(block => !commonKeys.has(blockKey(block)));
+            output = output.replace(declaration!.code, () => buildClass(derivedHeader, derivedBlocks, spaced));
+        });
+    }
+
+    return output;
+}
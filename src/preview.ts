@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import { convertForDocument, DocumentConversion } from './documentConversion';
+import { chooseArraySampling, resolveJsonSamples } from './input';
+import { readProjectSettings } from './project';
+import { overlayConfiguration, readGenerationSettings, resolveConfiguration, resolveNamespaceMode } from './settings';
+import { DeclaredType, uniqueTypeName } from './typeNames';
+import { registerSerializableTypes, scanExistingTypes } from './workspaceTypes';
+
+/**
+ * Settings that can be toggled in the preview panel: every converter option plus the attribute settings
+ */
+const PREVIEW_SETTINGS = [
+    'typeStyle', 'recordKind', 'propertyAccessor', 'requiredProperties', 'typeAccessibility', 'sealedTypes',
+    'typeNesting', 'typeOrder', 'nullableReferenceTypes', 'collectionType', 'integerType', 'fractionalType', 'decimalPropertyPatterns',
+    'singularizeTypeNames', 'inferEnums', 'enumMinOccurrences', 'enumMaxValues', 'inferDateTimes', 'inferStringTypes', 'dictionaryMinKeys', 'topLevelArrayAsSamples', 'detectJsonSchema', 'detectPolymorphism',
+    'reuseIdenticalTypes', 'serializationAttributes', 'namingPolicy', 'emitNamingPolicyOptions',
+    'generateSerializerContext', 'extensionData', 'docComments', 'dataAnnotations', 'dataAnnotationBounds', 'attributeRendering',
+];
+
+/**
+ * Manifest entry of a setting, used to build its control
+ */
+interface SettingSchema {
+    type?: string;
+    enum?: string[];
+    minimum?: number;
+    description?: string;
+    markdownDescription?: string;
+}
+
+/**
+ * Messages sent by the webview
+ */
+type PanelMessage =
+    | { type: 'setting'; key: string; value: unknown }
+    | { type: 'namespace'; value: boolean }
+    | { type: 'rootClassName'; value: string }
+    | { type: 'insert' }
+    | { type: 'save' };
+
+/**
+ * Current value of each previewed setting. Nullable and serializer settings show the value
+ * derived from the target project when the user has not set them.
+ */
+function initialSettingValues(config: vscode.WorkspaceConfiguration, document: vscode.TextDocument): Map<string, unknown> {
+    const values = new Map<string, unknown>(PREVIEW_SETTINGS.map(key => [key, config.get(key)]));
+    const project = document.uri.scheme === 'file' ? readProjectSettings(document.uri.fsPath) : undefined;
+    const { nullableStyle, serializationAttributes } = readGenerationSettings(config, project);
+    values.set('nullableReferenceTypes', nullableStyle === 'nullable' ? 'nullable' : nullableStyle === 'defaults' ? 'defaultValues' : 'none');
+    values.set('serializationAttributes', serializationAttributes ?? 'none');
+    return values;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function buildControl(key: string, schema: SettingSchema, value: unknown): string {
+    const title = escapeHtml(schema.description ?? schema.markdownDescription ?? '');
+    if (schema.type === 'boolean') {
+        return `<label title="${title}"><input type="checkbox" data-setting="${key}"${value ? ' checked' : ''}> ${key}</label>`;
+    }
+    if (schema.enum) {
+        const options = schema.enum
+            .map(option => `<option value="${escapeHtml(option)}"${option === value ? ' selected' : ''}>${escapeHtml(option)}</option>`)
+            .join('');
+        return `<label title="${title}">${key} <select data-setting="${key}">${options}</select></label>`;
+    }
+    if (schema.type === 'number') {
+        const min = schema.minimum !== undefined ? ` min="${schema.minimum}"` : '';
+        return `<label title="${title}">${key} <input type="number"${min} data-setting="${key}" value="${escapeHtml(String(value ?? ''))}"></label>`;
+    }
+    // Arrays (e.g. decimalPropertyPatterns) are edited as comma-separated text
+    const text = Array.isArray(value) ? value.join(', ') : String(value ?? '');
+    return `<label title="${title}">${key} <input type="text" data-setting="${key}" data-array="${schema.type === 'array'}" value="${escapeHtml(text)}"></label>`;
+}
+
+function buildHtml(
+    webview: vscode.Webview,
+    manifest: Record<string, SettingSchema>,
+    values: Map<string, unknown>,
+    withNamespace: boolean,
+    rootClassName: string,
+    json: string
+): string {
+    const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+    const controls = PREVIEW_SETTINGS
+        .map(key => buildControl(key, manifest[`json2csharp.${key}`] ?? {}, values.get(key)))
+        .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+    body { display: flex; flex-direction: column; height: 100vh; margin: 0; padding: 0 12px; box-sizing: border-box; }
+    #controls { display: flex; flex-wrap: wrap; gap: 6px 16px; padding: 8px 0; }
+    #controls label { white-space: nowrap; }
+    #actions { display: flex; gap: 8px; align-items: center; padding-bottom: 8px; }
+    #panes { display: flex; gap: 12px; flex: 1; min-height: 0; }
+    pre { flex: 1; overflow: auto; margin: 0; padding: 8px; font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size);
+        background: var(--vscode-textCodeBlock-background); }
+    input, select { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button:disabled { opacity: 0.5; cursor: default; }
+    #error { color: var(--vscode-errorForeground); }
+</style>
+</head>
+<body>
+<div id="controls">
+<label>Root class name <input type="text" id="rootClassName" value="${escapeHtml(rootClassName)}"></label>
+<label><input type="checkbox" id="namespace"${withNamespace ? ' checked' : ''}> Namespace &amp; usings</label>
+${controls}
+</div>
+<div id="actions">
+<button id="insert">Insert</button>
+<button id="save">Save as Workspace Settings</button>
+<span id="error"></span>
+</div>
+<div id="panes">
+<pre id="json">${escapeHtml(json)}</pre>
+<pre id="csharp"></pre>
+</div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const insert = document.getElementById('insert');
+    document.querySelectorAll('[data-setting]').forEach(element => {
+        element.addEventListener('change', () => {
+            const value = element.type === 'checkbox' ? element.checked
+                : element.type === 'number' ? Number(element.value)
+                : element.dataset.array === 'true' ? element.value.split(',').map(item => item.trim()).filter(item => item)
+                : element.value;
+            vscode.postMessage({ type: 'setting', key: element.dataset.setting, value });
+        });
+    });
+    document.getElementById('namespace').addEventListener('change', event => vscode.postMessage({ type: 'namespace', value: event.target.checked }));
+    document.getElementById('rootClassName').addEventListener('input', event => vscode.postMessage({ type: 'rootClassName', value: event.target.value }));
+    insert.addEventListener('click', () => vscode.postMessage({ type: 'insert' }));
+    document.getElementById('save').addEventListener('click', () => vscode.postMessage({ type: 'save' }));
+    window.addEventListener('message', event => {
+        const message = event.data;
+        document.getElementById('error').textContent = message.error ?? '';
+        insert.disabled = message.code === undefined;
+        if (message.code !== undefined) {
+            document.getElementById('csharp').textContent = message.code;
+        }
+    });
+</script>
+</body>
+</html>`;
+}
+
+/**
+ * Open a preview of the C# generated from the clipboard, with toggles for the conversion settings.
+ * The output is re-rendered on every change; Insert pastes it at the cursor position the command started from,
+ * and the chosen toggles can be saved as workspace settings.
+ */
+export async function pasteWithPreview(context: vscode.ExtensionContext, editor: vscode.TextEditor): Promise<void> {
+    const text = await vscode.env.clipboard.readText();
+    if (!text.trim()) {
+        vscode.window.showErrorMessage('Clipboard is empty');
+        return;
+    }
+
+    const config = await resolveConfiguration(editor.document.uri);
+    if (!config) {
+        return;
+    }
+    const sampleArrays = await chooseArraySampling([text], config);
+    if (sampleArrays === undefined) {
+        return;
+    }
+    const samples = resolveJsonSamples([text], config.get<boolean>('lenientParsing', true));
+    if (!samples) {
+        return;
+    }
+
+    const document = editor.document;
+    const position = editor.selection.active;
+    const existingTypes: Map<string, DeclaredType> | undefined = await scanExistingTypes(config, document.uri, document.getText());
+    const defaultRootClassName = config.get<string>('rootClassName', 'Root');
+
+    // Panel state: setting values shown in the panel, and the ones changed from the configuration
+    const values = initialSettingValues(config, document);
+    const changed = new Map<string, unknown>();
+    let withNamespace = resolveNamespaceMode(config) === 'withNamespace';
+    let rootClassName = existingTypes ? uniqueTypeName(defaultRootClassName, existingTypes) : defaultRootClassName;
+    let result: DocumentConversion | undefined;
+    let renderCount = 0;
+    let renderAbort: AbortController | undefined;
+
+    const panel = vscode.window.createWebviewPanel(
+        'json2csharp.preview',
+        `C# Preview: ${rootClassName}`,
+        { viewColumn: vscode.ViewColumn.Beside, preserveFocus: false },
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+    const manifest: Record<string, SettingSchema> = context.extension.packageJSON.contributes.configuration.properties;
+    panel.webview.html = buildHtml(panel.webview, manifest, values, withNamespace, rootClassName, samples.join('\n\n'));
+
+    const render = async () => {
+        // Stop renders superseded by a later change, and ignore their results
+        const current = ++renderCount;
+        renderAbort?.abort();
+        const controller = renderAbort = new AbortController();
+        result = undefined;
+        if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(rootClassName)) {
+            panel.webview.postMessage({ error: 'Invalid C# class name' });
+            return;
+        }
+        try {
+            const conversion = await convertForDocument(document, samples, rootClassName, overlayConfiguration(config, changed), withNamespace, existingTypes, {
+                sampleArrays,
+                signal: controller.signal,
+            });
+            if (current === renderCount) {
+                result = conversion;
+                panel.webview.postMessage({ code: conversion.code });
+            }
+        } catch (error) {
+            if (current === renderCount) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+                panel.webview.postMessage({ error: `Failed to convert JSON: ${errorMessage}` });
+            }
+        }
+    };
+
+    const insert = async () => {
+        if (!result) {
+            return;
+        }
+        const { code, serializerContext } = result;
+        // The panel has focus; reopen the document the command started from
+        const target = await vscode.window.showTextDocument(document.uri, {
+            viewColumn: editor.viewColumn,
+            selection: new vscode.Selection(position, position),
+        });
+        await target.edit((editBuilder) => {
+            editBuilder.insert(position, code);
+        });
+        if (serializerContext) {
+            await registerSerializableTypes(serializerContext, rootClassName, config, document.uri);
+        }
+        panel.dispose();
+    };
+
+    const save = async () => {
+        for (const [key, value] of changed) {
+            await config.update(key, value, vscode.ConfigurationTarget.Workspace);
+        }
+        if (withNamespace !== (resolveNamespaceMode(config) === 'withNamespace')) {
+            await config.update('namespaceMode', withNamespace ? 'withNamespace' : 'withoutNamespace', vscode.ConfigurationTarget.Workspace);
+        }
+        vscode.window.setStatusBarMessage('Saved JSON to C# settings to the workspace', 3000);
+    };
+
+    panel.webview.onDidReceiveMessage(async (message: PanelMessage) => {
+        try {
+            switch (message.type) {
+                case 'setting':
+                    changed.set(message.key, message.value);
+                    await render();
+                    break;
+                case 'namespace':
+                    withNamespace = message.value;
+                    await render();
+                    break;
+                case 'rootClassName':
+                    rootClassName = message.value.trim();
+                    panel.title = `C# Preview: ${rootClassName}`;
+                    await render();
+                    break;
+                case 'insert':
+                    await insert();
+                    break;
+                case 'save':
+                    await save();
+                    break;
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`JSON to C# preview: ${errorMessage}`);
+        }
+    }, undefined, context.subscriptions);
+
+    await render();
+}
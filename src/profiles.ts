@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { findUpwards } from './namespace';
+import { repairJson } from './validator';
+
+/**
+ * Per-repository configuration file, looked up from the target file's directory upwards (like the .csproj)
+ */
+export const CONFIG_FILE_NAME = 'json2csharp.json';
+
+/**
+ * Values of `json2csharp.*` settings, keyed without the prefix
+ */
+export type SettingValues = Record<string, unknown>;
+
+/**
+ * Settings and named profiles read from a settings file
+ */
+export interface SettingsFile {
+    settings: SettingValues;
+    /** Profile name → the settings it bundles */
+    profiles: Record<string, SettingValues>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Setting values of an object, with the `json2csharp.` prefix removed from the keys and without `profiles`
+ */
+function settingValues(object: Record<string, unknown>): SettingValues {
+    const entries = Object.entries(object)
+        .map(([key, value]): [string, unknown] => [key.replace(/^json2csharp\./, ''), value])
+        .filter(([key]) => key !== 'profiles');
+    return Object.fromEntries(entries);
+}
+
+/**
+ * Parse a settings file (JSON with comments, like settings.json): setting values, keys with or without
+ * the `json2csharp.` prefix, and `profiles` mapping profile names to setting values.
+ * Throws when the text is not a JSON object or a profile is not an object.
+ */
+export function parseSettingsFile(text: string): SettingsFile {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        const repaired = repairJson(text);
+        try {
+            parsed = JSON.parse(repaired.json);
+        } catch (error) {
+            throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (!isObject(parsed)) {
+        throw new Error('Expected a JSON object of settings');
+    }
+
+    const rawProfiles = parsed['json2csharp.profiles'] ?? parsed.profiles ?? {};
+    if (!isObject(rawProfiles)) {
+        throw new Error('"profiles" must map profile names to objects of settings');
+    }
+    const profiles: Record<string, SettingValues> = {};
+    for (const [name, values] of Object.entries(rawProfiles)) {
+        if (!isObject(values)) {
+            throw new Error(`Profile "${name}" must be an object of settings`);
+        }
+        profiles[name] = settingValues(values);
+    }
+    return { settings: settingValues(parsed), profiles };
+}
+
+/**
+ * Path of the nearest `json2csharp.json` at or above the directory of a file, or undefined if there is none
+ */
+export function findConfigFile(filePath: string): string | undefined {
+    return findUpwards(filePath, directory => {
+        const candidate = path.join(directory, CONFIG_FILE_NAME);
+        return fs.existsSync(candidate) ? candidate : undefined;
+    });
+}
+
+/**
+ * Read and parse a settings file. Throws with the file name when it can't be read or parsed.
+ */
+export function readSettingsFile(filePath: string): SettingsFile {
+    try {
+        return parseSettingsFile(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`${path.basename(filePath)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * One-line summary of a profile's settings, e.g. `typeStyle: recordPositional, sealedTypes: true`
+ */
+export function describeSettings(values: SettingValues): string {
+    return Object.entries(values).map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`).join(', ');
+}
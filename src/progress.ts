@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+
+/**
+ * Run a task with a cancellable progress notification. The task gets a signal that is aborted when the user
+ * cancels; it stops at its next step with an `AbortError`. Returns undefined if the user cancelled.
+ */
+export async function withCancellableProgress<T>(title: string, task: (signal: AbortSignal) => Promise<T>): Promise<T | undefined> {
+    return vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title, cancellable: true }, async (_progress, token) => {
+        const controller = new AbortController();
+        const subscription = token.onCancellationRequested(() => controller.abort());
+        try {
+            // Let the notification show before synchronous work blocks the extension host
+            await new Promise(resolve => setImmediate(resolve));
+            const result = await task(controller.signal);
+            return controller.signal.aborted ? undefined : result;
+        } catch (error) {
+            if (controller.signal.aborted) {
+                return undefined;
+            }
+            throw error;
+        } finally {
+            subscription.dispose();
+        }
+    });
+}
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SerializationAttributes } from './converter';
+import { findNearestCsproj } from './namespace';
+
+/**
+ * Settings of the nearest .csproj (and Directory.Build.props) that affect the generated code
+ */
+export interface ProjectSettings {
+    /** `<Nullable>`: true for enable/annotations, false for disable/warnings, undefined when not set */
+    nullable?: boolean;
+    /** C# language version: `<LangVersion>`, else the default of the (oldest) target framework; undefined when unknown or latest */
+    languageVersion?: number;
+    /**
+     * .NET version whose APIs every target framework has (net8.0 → 8, netcoreapp3.1 → 3, netstandard2.1 → 3,
+     * netstandard2.0 and .NET Framework → 2); undefined when unknown. Unlike the C# version, `<LangVersion>` doesn't change it.
+     */
+    frameworkVersion?: number;
+    /** Serializer implied by a package reference (Newtonsoft.Json), undefined for the System.Text.Json default */
+    serializationAttributes?: SerializationAttributes;
+}
+
+/**
+ * Read an MSBuild property value (the first occurrence, conditions are ignored)
+ */
+function readProperty(content: string, name: string): string | undefined {
+    const match = content.match(new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`, 'i'));
+    return match?.[1] || undefined;
+}
+
+/**
+ * Default C# language version of a target framework moniker (net8.0 → 12, netstandard2.0 → 7.3, ...)
+ */
+function defaultLanguageVersion(targetFramework: string): number | undefined {
+    const tfm = targetFramework.trim().toLowerCase();
+    const modern = tfm.match(/^net(\d+)\.\d+/);
+    if (modern && Number(modern[1]) >= 5) {
+        // net5.0 → C# 9, net6.0 → C# 10, ...
+        return Number(modern[1]) + 4;
+    }
+    if (/^netcoreapp3\.|^netstandard2\.1/.test(tfm)) {
+        return 8;
+    }
+    if (/^(?:netcoreapp[12]\.|netstandard[12]\.|net[1-4]\d*$)/.test(tfm)) {
+        return 7.3;
+    }
+    return undefined;
+}
+
+/**
+ * .NET version matching the APIs of a target framework moniker (net8.0 → 8, netcoreapp3.1 → 3, netstandard2.0 → 2, ...)
+ */
+function frameworkApiVersion(targetFramework: string): number | undefined {
+    const tfm = targetFramework.trim().toLowerCase();
+    const modern = tfm.match(/^net(\d+)\.\d+/);
+    if (modern && Number(modern[1]) >= 5) {
+        return Number(modern[1]);
+    }
+    const core = tfm.match(/^netcoreapp(\d)\./);
+    if (core) {
+        return Number(core[1]);
+    }
+    if (/^netstandard2\.1/.test(tfm)) {
+        return 3;
+    }
+    if (/^(?:netstandard[12]\.|net[1-4]\d*$)/.test(tfm)) {
+        return 2;
+    }
+    return undefined;
+}
+
+/**
+ * Parse `<LangVersion>`: numbers and ISO-n map to a version, latest/preview to undefined (no restriction)
+ */
+function parseLanguageVersion(value: string): number | undefined {
+    const iso = value.match(/^ISO-(\d)$/i);
+    if (iso) {
+        return Number(iso[1]);
+    }
+    const version = Number(value);
+    return Number.isFinite(version) ? version : undefined;
+}
+
+/**
+ * Find the nearest Directory.Build.props at or above the project directory
+ */
+function findDirectoryBuildProps(projectDir: string): string | undefined {
+    let currentDir = projectDir;
+    while (true) {
+        const candidate = path.join(currentDir, 'Directory.Build.props');
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+        const parentDir = path.dirname(currentDir);
+        if (parentDir === currentDir) {
+            return undefined;
+        }
+        currentDir = parentDir;
+    }
+}
+
+/**
+ * Read the project settings for a file from its nearest .csproj.
+ * Properties missing from the .csproj are taken from Directory.Build.props.
+ * Returns undefined if no .csproj is found.
+ */
+export function readProjectSettings(filePath: string): ProjectSettings | undefined {
+    const csprojPath = findNearestCsproj(filePath);
+    if (!csprojPath) {
+        return undefined;
+    }
+
+    let content: string;
+    try {
+        content = fs.readFileSync(csprojPath, 'utf-8');
+    } catch {
+        return undefined;
+    }
+
+    let propsContent = '';
+    const propsPath = findDirectoryBuildProps(path.dirname(csprojPath));
+    if (propsPath) {
+        try {
+            propsContent = fs.readFileSync(propsPath, 'utf-8');
+        } catch {
+            // Ignore an unreadable Directory.Build.props
+        }
+    }
+    const property = (name: string) => readProperty(content, name) ?? readProperty(propsContent, name);
+
+    const nullableValue = property('Nullable')?.toLowerCase();
+    const nullable = nullableValue === 'enable' || nullableValue === 'annotations' ? true
+        : nullableValue === 'disable' || nullableValue === 'warnings' ? false
+            : undefined;
+
+    // The oldest target framework decides, unless an explicit LangVersion sets the C# version
+    const targetFrameworks = (property('TargetFramework') ?? property('TargetFrameworks') ?? '').split(';').filter(tfm => tfm.trim());
+    const oldest = (versions: (number | undefined)[]) =>
+        versions.length > 0 && versions.every(version => version !== undefined) ? Math.min(...versions as number[]) : undefined;
+    const langVersion = property('LangVersion');
+    const languageVersion = langVersion && langVersion.toLowerCase() !== 'default'
+        ? parseLanguageVersion(langVersion)
+        : oldest(targetFrameworks.map(defaultLanguageVersion));
+    const frameworkVersion = oldest(targetFrameworks.map(frameworkApiVersion));
+
+    const usesNewtonsoft = /<PackageReference\s+Include="(?:Newtonsoft\.Json|Microsoft\.AspNetCore\.Mvc\.NewtonsoftJson)"/i.test(`${content}\n${propsContent}`);
+
+    return {
+        nullable,
+        languageVersion,
+        frameworkVersion,
+        serializationAttributes: usesNewtonsoft ? 'NewtonsoftJson' : undefined,
+    };
+}
@@ -0,0 +1,371 @@
+import { applyNamingPolicy, NamingPolicy } from './naming';
+import { findClosingBrace, splitTopLevel } from './typeNames';
+
+/**
+ * Options for sample JSON generation
+ */
+export interface SampleJsonOptions {
+    /** Naming policy applied to properties without a JSON name attribute */
+    namingPolicy: NamingPolicy;
+}
+
+/**
+ * A serialized member of a class, record or struct
+ */
+interface SampleMember {
+    name: string;
+    /** Name from `[JsonPropertyName]` / `[JsonProperty]`, if any */
+    jsonName?: string;
+    type: string;
+}
+
+/**
+ * A type declared in the C# source, with what is needed to build its sample
+ */
+interface SampleType {
+    name: string;
+    kind: 'type' | 'enum';
+    /** Declaration span, including leading attributes */
+    start: number;
+    end: number;
+    /** Body span (between the braces), if the type has a body */
+    bodyStart?: number;
+    bodyEnd?: number;
+    isAbstract: boolean;
+    baseType?: string;
+    members: SampleMember[];
+    /** Enum member → JSON value, in declaration order */
+    enumValues: Map<string, string>;
+    /** Discriminator property of a polymorphic base type */
+    discriminator?: string;
+    /** Derived type → discriminator value */
+    derivedTypes: Map<string, string | number>;
+}
+
+/**
+ * Values used for built-in types, chosen to show the JSON shape of each type
+ */
+const PRIMITIVE_SAMPLES: Record<string, unknown> = {
+    string: 'string', String: 'string',
+    char: 'a', Char: 'a',
+    bool: true, Boolean: true,
+    byte: 1, sbyte: 1, short: 1, ushort: 1, int: 1, uint: 1, long: 1, ulong: 1, nint: 1, nuint: 1,
+    Byte: 1, SByte: 1, Int16: 1, UInt16: 1, Int32: 1, UInt32: 1, Int64: 1, UInt64: 1, Int128: 1, UInt128: 1, BigInteger: 1,
+    float: 1.5, double: 1.5, decimal: 1.5, Half: 1.5, Single: 1.5, Double: 1.5, Decimal: 1.5,
+    DateTime: '2024-01-01T12:00:00', DateTimeOffset: '2024-01-01T12:00:00+00:00',
+    DateOnly: '2024-01-01', TimeOnly: '12:00:00', TimeSpan: '01:30:00',
+    Guid: '3fa85f64-5717-4562-b3fc-2c963f66afa6', Uri: 'https://example.com',
+};
+
+/**
+ * Types serialized as arbitrary JSON objects
+ */
+const OBJECT_TYPES = new Set(['object', 'Object', 'dynamic', 'JsonElement', 'JsonNode', 'JsonObject', 'JsonDocument', 'JToken', 'JObject', 'ExpandoObject']);
+
+/**
+ * Generic types serialized as JSON arrays (one type argument) or objects (two type arguments)
+ */
+const COLLECTION_TYPES = new Set([
+    'List', 'IList', 'IEnumerable', 'IReadOnlyList', 'ICollection', 'IReadOnlyCollection', 'Collection', 'ReadOnlyCollection',
+    'HashSet', 'ISet', 'IReadOnlySet', 'SortedSet', 'LinkedList', 'Queue', 'Stack', 'ObservableCollection',
+    'ImmutableArray', 'ImmutableList', 'ImmutableHashSet', 'IImmutableList', 'IAsyncEnumerable',
+]);
+const DICTIONARY_TYPES = new Set([
+    'Dictionary', 'IDictionary', 'IReadOnlyDictionary', 'SortedDictionary', 'SortedList', 'ConcurrentDictionary',
+    'ImmutableDictionary', 'IImmutableDictionary', 'ReadOnlyDictionary',
+]);
+
+const DECLARATION_REGEX = /((?:\[[^\]]*\]\s*)*)((?:(?:public|internal|protected|private|file|static|abstract|sealed|partial|readonly)\s+)*)\b(class|record|struct|enum|interface)\s+(?:struct\s+|class\s+)?([A-Za-z_]\w*)/g;
+const PROPERTY_REGEX = /((?:\[[^\]]*\]\s*)*)((?:(?:public|internal|protected|private|required|virtual|override|new|static|abstract|sealed)\s+)+)([\w.]+(?:\s*<[^{};=()]*?>)?(?:\s*\[\s*\])*\??)\s+(@?\w+)\s*\{\s*(?:(?:public|internal|protected|private)\s+)?(?:get|set|init)\b/g;
+
+/**
+ * JSON name from `[JsonPropertyName("x")]`, `[JsonProperty("x")]` or `[JsonProperty(PropertyName = "x")]`
+ */
+function attributeJsonName(attributes: string): string | undefined {
+    const match = /\b(?:JsonPropertyName|JsonProperty)\s*\(\s*(?:PropertyName\s*=\s*)?("(?:[^"\\]|\\.)*")/.exec(attributes);
+    return match ? JSON.parse(match[1]) : undefined;
+}
+
+/**
+ * Whether the attributes exclude the member from the sample: `[JsonIgnore]` without a condition,
+ * or `[JsonExtensionData]` (its entries are unknown fields, not a property)
+ */
+function isIgnored(attributes: string): boolean {
+    return /\bJsonIgnore\b(?!\s*\(\s*Condition)|\bJsonExtensionData\b/.test(attributes);
+}
+
+/**
+ * Replace comments with spaces, keeping string literals and source offsets intact
+ */
+function stripComments(code: string): string {
+    return code.replace(/"(?:[^"\\\n]|\\.)*"|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+        match => match.startsWith('"') ? match : match.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Last segment of a possibly qualified type name (`System.Guid` → `Guid`, `global::Foo` → `Foo`)
+ */
+function simpleName(name: string): string {
+    return name.replace(/^global::/, '').split('.').pop() ?? name;
+}
+
+/**
+ * Parse the classes, records, structs and enums declared in C# source
+ */
+function parseTypes(code: string): Map<string, SampleType> {
+    const source = stripComments(code);
+    const types = new Map<string, SampleType>();
+
+    const declarationRegex = new RegExp(DECLARATION_REGEX.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = declarationRegex.exec(source)) !== null) {
+        const [, attributes, modifiers, keyword, name] = match;
+        const type: SampleType = {
+            name, kind: keyword === 'enum' ? 'enum' : 'type', start: match.index, end: declarationRegex.lastIndex,
+            isAbstract: /\babstract\b/.test(modifiers) || keyword === 'interface',
+            members: [], enumValues: new Map(), derivedTypes: new Map(),
+        };
+        let index = declarationRegex.lastIndex;
+
+        // Positional record parameters: record Foo([property: JsonPropertyName("x")] Type Name, ...)
+        const paramsMatch = keyword === 'record' ? /^\s*(?:<[^>]*>)?\s*\(/.exec(source.slice(index)) : null;
+        if (paramsMatch) {
+            const start = index + paramsMatch[0].length;
+            let depth = 0;
+            let end = start;
+            for (; end < source.length; end++) {
+                if (source[end] === '(') {
+                    depth++;
+                } else if (source[end] === ')') {
+                    if (depth === 0) {
+                        break;
+                    }
+                    depth--;
+                }
+            }
+            for (const param of splitTopLevel(source.slice(start, end))) {
+                const paramAttributes = (param.match(/\[[^\]]*\]/g) ?? []).join(' ');
+                const cleaned = param.replace(/\[[^\]]*\]/g, '').split('=')[0].trim();
+                const paramMatch = /^(.+?)\s+(@?\w+)$/.exec(cleaned);
+                if (paramMatch && !isIgnored(paramAttributes)) {
+                    type.members.push({ name: paramMatch[2], jsonName: attributeJsonName(paramAttributes), type: paramMatch[1] });
+                }
+            }
+            index = end + 1;
+            type.end = index;
+        }
+
+        // Base type: class Foo : Bar
+        type.baseType = /^\s*:\s*([\w.:]+)/.exec(source.slice(index))?.[1];
+
+        const bodyMatch = /^[^{;]*[{;]/.exec(source.slice(index));
+        if (bodyMatch?.[0].endsWith('{')) {
+            type.bodyStart = index + bodyMatch[0].length;
+            type.bodyEnd = findClosingBrace(source, type.bodyStart - 1);
+            type.end = type.bodyEnd + 1;
+        } else if (bodyMatch) {
+            type.end = index + bodyMatch[0].length;
+        }
+
+        // Polymorphic base: [JsonPolymorphic(TypeDiscriminatorPropertyName = "x")] [JsonDerivedType(typeof(D), "d")]
+        const polymorphic = /\bJsonPolymorphic\b(?:\s*\([^)]*TypeDiscriminatorPropertyName\s*=\s*("(?:[^"\\]|\\.)*"))?/.exec(attributes);
+        if (polymorphic) {
+            type.discriminator = polymorphic[1] ? JSON.parse(polymorphic[1]) : '$type';
+        }
+        const derivedRegex = /\bJsonDerivedType\s*\(\s*typeof\s*\(\s*([\w.]+)\s*\)\s*(?:,\s*("(?:[^"\\]|\\.)*"|-?\d+))?/g;
+        let derived: RegExpExecArray | null;
+        while ((derived = derivedRegex.exec(attributes)) !== null) {
+            type.derivedTypes.set(simpleName(derived[1]), derived[2] ? JSON.parse(derived[2]) : simpleName(derived[1]));
+        }
+
+        if (!types.has(name)) {
+            types.set(name, type);
+        }
+    }
+
+    for (const type of types.values()) {
+        if (type.bodyStart === undefined || type.bodyEnd === undefined) {
+            continue;
+        }
+        let body = source.slice(type.bodyStart, type.bodyEnd);
+
+        if (type.kind === 'enum') {
+            for (const member of splitTopLevel(body)) {
+                const memberName = member.replace(/\[[^\]]*\]/g, '').split('=')[0].trim();
+                if (memberName) {
+                    // [JsonStringEnumMemberName("x")] / [EnumMember(Value = "x")]
+                    const renamed = /\b(?:JsonStringEnumMemberName|EnumMember)\s*\(\s*(?:Value\s*=\s*)?("(?:[^"\\]|\\.)*")/.exec(member);
+                    type.enumValues.set(memberName, renamed ? JSON.parse(renamed[1]) : memberName);
+                }
+            }
+            continue;
+        }
+
+        // Blank out nested types so their properties aren't attributed to this type
+        for (const nested of types.values()) {
+            if (nested !== type && nested.start >= type.bodyStart && nested.end <= type.bodyEnd) {
+                const from = nested.start - type.bodyStart;
+                const to = nested.end - type.bodyStart;
+                body = body.slice(0, from) + ' '.repeat(to - from) + body.slice(to);
+            }
+        }
+
+        const propertyRegex = new RegExp(PROPERTY_REGEX.source, 'g');
+        let property: RegExpExecArray | null;
+        while ((property = propertyRegex.exec(body)) !== null) {
+            const [, propertyAttributes, propertyModifiers, propertyType, propertyName] = property;
+            if (!/\bpublic\b/.test(propertyModifiers) || /\bstatic\b/.test(propertyModifiers) || isIgnored(propertyAttributes)) {
+                continue;
+            }
+            type.members.push({ name: propertyName, jsonName: attributeJsonName(propertyAttributes), type: propertyType });
+        }
+    }
+
+    // Newtonsoft converters generated for polymorphic bases: switch on item["x"], case "d": target = new D()
+    for (const type of types.values()) {
+        const base = types.get(type.name.replace(/Converter$/, ''));
+        if (!base || base === type || type.bodyStart === undefined) {
+            continue;
+        }
+        const body = source.slice(type.bodyStart, type.bodyEnd);
+        const key = /\bswitch\s*\([^\n]*?\w+\s*\[\s*("(?:[^"\\]|\\.)*")\s*\]/.exec(body);
+        const caseRegex = /\bcase\s+("(?:[^"\\]|\\.)*")\s*:\s*\w+\s*=\s*new\s+([\w.]+)\s*\(/g;
+        let caseMatch: RegExpExecArray | null;
+        while (key && (caseMatch = caseRegex.exec(body)) !== null) {
+            base.discriminator ??= JSON.parse(key[1]);
+            base.derivedTypes.set(simpleName(caseMatch[2]), JSON.parse(caseMatch[1]));
+        }
+    }
+
+    // Enum converters write the JSON value per member: case Status.Active: writer.WriteStringValue("active")
+    const enumCaseRegex = /\bcase\s+(\w+)\.(\w+)\s*:[^;]*?("(?:[^"\\]|\\.)*")/g;
+    let enumCase: RegExpExecArray | null;
+    while ((enumCase = enumCaseRegex.exec(source)) !== null) {
+        const enumType = types.get(enumCase[1]);
+        if (enumType?.kind === 'enum' && enumType.enumValues.has(enumCase[2])) {
+            enumType.enumValues.set(enumCase[2], JSON.parse(enumCase[3]));
+        }
+    }
+
+    return types;
+}
+
+/**
+ * Find the type to generate a sample for: the first type declared in the selection,
+ * or the innermost type declaration containing the cursor
+ */
+export function findTypeAtRange(code: string, start: number, end: number): string | undefined {
+    const types = [...parseTypes(code).values()];
+    if (end > start) {
+        const selected = types.find(type => type.start >= start && type.start < end);
+        if (selected) {
+            return selected.name;
+        }
+    }
+    return types
+        .filter(type => type.start <= start && start <= type.end)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0]?.name;
+}
+
+/**
+ * Generate a representative JSON document for a C# type declared in the source.
+ * Follows JSON name attributes (or the naming policy), nested and related types declared in the same source,
+ * collection, dictionary and enum types, and polymorphic bases (the first derived type with its discriminator).
+ */
+export function generateSampleJson(code: string, typeName: string, options: SampleJsonOptions): string {
+    const types = parseTypes(code);
+
+    // undefined marks a type already being expanded (a cycle)
+    const sampleValue = (rawType: string, stack: string[]): unknown => {
+        const type = rawType.replace(/\s+/g, '').replace(/\?$/, '');
+
+        if (type === 'byte[]' || type === 'Byte[]') {
+            return 'AQID'; // byte arrays are base64 strings
+        }
+        if (type.endsWith('[]')) {
+            const element = sampleValue(type.slice(0, type.lastIndexOf('[')), stack);
+            return element === undefined ? [] : [element];
+        }
+
+        const generic = /^([\w.:]+)<(.+)>$/.exec(type);
+        if (generic) {
+            const name = simpleName(generic[1]);
+            const args = splitTopLevel(generic[2]);
+            if (name === 'Nullable') {
+                return sampleValue(args[0], stack);
+            }
+            if (DICTIONARY_TYPES.has(name) && args.length === 2) {
+                const key = sampleValue(args[0], stack);
+                const value = sampleValue(args[1], stack);
+                return value === undefined ? {} : { [typeof key === 'string' ? 'key' : String(key)]: value };
+            }
+            if (COLLECTION_TYPES.has(name)) {
+                const element = sampleValue(args[0], stack);
+                return element === undefined ? [] : [element];
+            }
+            return null;
+        }
+
+        const name = simpleName(type);
+        if (name in PRIMITIVE_SAMPLES) {
+            return PRIMITIVE_SAMPLES[name];
+        }
+        if (OBJECT_TYPES.has(name)) {
+            return {};
+        }
+        if (name === 'JArray' || name === 'JsonArray') {
+            return [];
+        }
+        return types.has(name) ? sampleType(name, stack) : null;
+    };
+
+    const sampleObject = (type: SampleType, stack: string[], discriminator?: [string, string | number]): Record<string, unknown> => {
+        // Base type members come first, as serializers write them
+        const chain: SampleType[] = [];
+        for (let current: SampleType | undefined = type; current && !chain.includes(current); current = current.baseType ? types.get(simpleName(current.baseType)) : undefined) {
+            chain.unshift(current);
+        }
+
+        const result: Record<string, unknown> = {};
+        if (discriminator) {
+            result[discriminator[0]] = discriminator[1];
+        }
+        for (const member of chain.flatMap(current => current.members)) {
+            const jsonName = member.jsonName ?? applyNamingPolicy(member.name.replace(/^@/, ''), options.namingPolicy);
+            if (discriminator && jsonName.toLowerCase() === discriminator[0].toLowerCase()) {
+                // Newtonsoft bases declare the discriminator as a property
+                delete result[discriminator[0]];
+                result[jsonName] = discriminator[1];
+                continue;
+            }
+            const value = sampleValue(member.type, stack);
+            result[jsonName] = value === undefined ? null : value;
+        }
+        return result;
+    };
+
+    const sampleType = (name: string, stack: string[]): unknown => {
+        if (stack.includes(name)) {
+            return undefined;
+        }
+        const type = types.get(name)!;
+        if (type.kind === 'enum') {
+            return type.enumValues.values().next().value ?? null;
+        }
+
+        // Polymorphic or abstract base: sample the first derived type
+        const derived = [...type.derivedTypes.keys()].find(derivedName => types.has(derivedName))
+            ?? (type.isAbstract ? [...types.values()].find(candidate => candidate.baseType && simpleName(candidate.baseType) === name)?.name : undefined);
+        if (derived && !stack.includes(derived)) {
+            const value = type.derivedTypes.get(derived);
+            const discriminator: [string, string | number] | undefined = type.discriminator !== undefined && value !== undefined
+                ? [type.discriminator, value]
+                : undefined;
+            return sampleObject(types.get(derived)!, [...stack, name, derived], discriminator);
+        }
+        return sampleObject(type, [...stack, name]);
+    };
+
+    const sample = types.has(typeName) ? sampleType(typeName, []) : null;
+    return JSON.stringify(sample ?? null, null, 2);
+}
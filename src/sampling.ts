@@ -0,0 +1,73 @@
+/**
+ * Format of a JSON string as type inference sees it (a date, a UUID, ...), or undefined for a plain string
+ */
+export type StringFormat = (value: string) => string | undefined;
+
+/**
+ * A JSON value reduced to its distinct shapes, and the id of its shape
+ */
+interface Reduced {
+    value: unknown;
+    shape: number;
+}
+
+/**
+ * Reduce JSON samples to one value per distinct shape: every array keeps the first element of each shape
+ * (in order), and samples of the same shape are dropped. A shape is everything type inference reads:
+ * the kind of each value (integers apart from fractions, strings by their `stringFormat`), the keys of
+ * objects in order, and the distinct shapes of array elements. The types inferred from the reduced samples
+ * are the same as for the full samples; only the number of values that repeat a shape goes down.
+ */
+export function reduceSamples(samples: string[], stringFormat: StringFormat): string[] {
+    // Shapes are interned, so a shape only spells out the ids of its children
+    const shapes = new Map<string, number>();
+    const intern = (shape: string): number => {
+        let id = shapes.get(shape);
+        if (id === undefined) {
+            id = shapes.size;
+            shapes.set(shape, id);
+        }
+        return id;
+    };
+
+    const distinct = (values: unknown[]): Reduced[] => {
+        const seen = new Set<number>();
+        const kept: Reduced[] = [];
+        for (const value of values) {
+            const reduced = reduce(value);
+            if (!seen.has(reduced.shape)) {
+                seen.add(reduced.shape);
+                kept.push(reduced);
+            }
+        }
+        return kept;
+    };
+
+    const reduce = (value: unknown): Reduced => {
+        if (value === null) {
+            return { value, shape: intern('null') };
+        }
+        if (Array.isArray(value)) {
+            const items = distinct(value);
+            return { value: items.map(item => item.value), shape: intern(`[${items.map(item => item.shape).join(',')}]`) };
+        }
+        if (typeof value === 'object') {
+            const entries = Object.entries(value).map(([key, child]): [string, Reduced] => [key, reduce(child)]);
+            return {
+                value: Object.fromEntries(entries.map(([key, child]) => [key, child.value])),
+                shape: intern(`{${entries.map(([key, child]) => `${JSON.stringify(key)}:${child.shape}`).join(',')}}`),
+            };
+        }
+        if (typeof value === 'number') {
+            // quicktype's distinction: integers beyond the safe range are fractions too
+            const isDouble = value !== Math.floor(value) || value < Number.MIN_SAFE_INTEGER || value > Number.MAX_SAFE_INTEGER;
+            return { value, shape: intern(isDouble ? 'double' : 'integer') };
+        }
+        if (typeof value === 'string') {
+            return { value, shape: intern(`string ${stringFormat(value) ?? ''}`) };
+        }
+        return { value, shape: intern(typeof value) };
+    };
+
+    return distinct(samples.map(sample => JSON.parse(sample))).map(({ value }) => JSON.stringify(value));
+}
@@ -0,0 +1,64 @@
+import { NamingPolicy, SYSTEM_TEXT_JSON_POLICIES } from './naming';
+
+/**
+ * Location where `[JsonSerializable]` attributes are inserted into an existing context
+ */
+export interface SerializableInsertion {
+    contextName: string;
+    offset: number;
+    text: string;
+}
+
+/**
+ * C# type names a serializer context registers for a root type: the type itself and its collection
+ */
+export function serializableTypeNames(rootClassName: string, collectionType: string): string[] {
+    const collection = collectionType === 'Array' ? `${rootClassName}[]` : `${collectionType}<${rootClassName}>`;
+    return [rootClassName, collection];
+}
+
+/**
+ * Build a System.Text.Json source-generation context for the given types.
+ * The naming policy (if any) is applied through `[JsonSourceGenerationOptions]`.
+ */
+export function buildSerializerContext(contextName: string, typeNames: string[], namingPolicy: NamingPolicy): string {
+    const lines: string[] = [];
+    if (namingPolicy !== 'none') {
+        lines.push(`[JsonSourceGenerationOptions(PropertyNamingPolicy = JsonKnownNamingPolicy.${SYSTEM_TEXT_JSON_POLICIES[namingPolicy]})]`);
+    }
+    for (const typeName of typeNames) {
+        lines.push(`[JsonSerializable(typeof(${typeName}))]`);
+    }
+    lines.push(`public partial class ${contextName} : JsonSerializerContext`, '{', '}');
+    return lines.join('\n');
+}
+
+/**
+ * Compute the `[JsonSerializable]` attributes to add to an existing `JsonSerializerContext` in `code`
+ * so that it covers `typeNames`. Types that are already registered are skipped.
+ * Returns undefined if the code has no context, or the context already covers every type.
+ */
+export function findSerializableInsertion(code: string, typeNames: string[]): SerializableInsertion | undefined {
+    const contextMatch = /^([ \t]*)(?:(?:public|internal|sealed)\s+)*partial\s+class\s+(\w+)\s*:\s*JsonSerializerContext\b/m.exec(code);
+    if (!contextMatch) {
+        return undefined;
+    }
+    const [, indent, contextName] = contextMatch;
+
+    // Existing registrations precede the class declaration
+    const registered = new Set<string>();
+    for (const match of code.slice(0, contextMatch.index).matchAll(/\[JsonSerializable\(typeof\(([^)]+)\)/g)) {
+        registered.add(match[1].replace(/\s+/g, ''));
+    }
+
+    const missing = typeNames.filter(typeName => !registered.has(typeName.replace(/\s+/g, '')));
+    if (missing.length === 0) {
+        return undefined;
+    }
+
+    return {
+        contextName,
+        offset: contextMatch.index,
+        text: missing.map(typeName => `${indent}[JsonSerializable(typeof(${typeName}))]\n`).join(''),
+    };
+}
@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import { CoreSettings, DEFAULT_SETTINGS, GenerationSettings, resolveGenerationSettings } from './core';
+import { CONFIG_FILE_NAME, describeSettings, findConfigFile, readSettingsFile, SettingsFile, SettingValues } from './profiles';
+import { ProjectSettings } from './project';
+import { DeclaredType } from './typeNames';
+
+/**
+ * Namespace inclusion mode
+ */
+export type NamespaceMode = 'withoutNamespace' | 'withNamespace' | 'choose';
+
+/**
+ * Quick pick item in the type name review; the accept item has no original name
+ */
+interface TypeNameItem extends vscode.QuickPickItem {
+    originalName?: string;
+}
+
+/**
+ * Quick pick item for a generation profile; the item without values keeps the settings as they are
+ */
+interface ProfileItem extends vscode.QuickPickItem {
+    values?: SettingValues;
+}
+
+/**
+ * Root class name chosen for a conversion
+ */
+export interface RootClassNameChoice {
+    name: string;
+    /** True when the user typed a name different from the suggested default */
+    isCustom: boolean;
+}
+
+export function resolveNamespaceMode(config: vscode.WorkspaceConfiguration): NamespaceMode {
+    const raw = config.get<string | boolean>('namespaceMode');
+
+    // Migration: handle old boolean includeNamespace setting
+    const rawInclude = config.get<boolean | undefined>('includeNamespace');
+    if (raw === undefined && rawInclude !== undefined) {
+        return rawInclude ? 'withNamespace' : 'withoutNamespace';
+    }
+
+    if (raw === 'withNamespace' || raw === 'choose') {
+        return raw;
+    }
+    return 'withoutNamespace';
+}
+
+/**
+ * Configuration with the given values layered over the workspace configuration.
+ * The values are reported as workspace values so they count as explicitly set.
+ */
+export function overlayConfiguration(config: vscode.WorkspaceConfiguration, values: Map<string, unknown>): vscode.WorkspaceConfiguration {
+    return {
+        get: (section: string, defaultValue?: unknown) => values.has(section) ? values.get(section) : config.get(section, defaultValue),
+        has: (section: string) => values.has(section) || config.has(section),
+        inspect: (section: string) => {
+            const inspected = config.inspect(section);
+            return inspected && values.has(section) ? { ...inspected, workspaceValue: values.get(section) } : inspected;
+        },
+        update: config.update.bind(config),
+    } as vscode.WorkspaceConfiguration;
+}
+
+/**
+ * Configuration for generating into a target file: the `json2csharp.*` settings, overlaid with the nearest
+ * `json2csharp.json` and then with the profile the user picks. Profiles come from `json2csharp.profiles`
+ * and the file (the file wins for equal names); the pick is only shown when there are profiles.
+ * Returns undefined (after showing an error) if the file is invalid, or if the user cancelled.
+ */
+export async function resolveConfiguration(targetUri: vscode.Uri | undefined): Promise<vscode.WorkspaceConfiguration | undefined> {
+    const config = vscode.workspace.getConfiguration('json2csharp');
+    const configPath = targetUri?.scheme === 'file' ? findConfigFile(targetUri.fsPath) : undefined;
+    let file: SettingsFile | undefined;
+    if (configPath) {
+        try {
+            file = readSettingsFile(configPath);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            vscode.window.showErrorMessage(`Failed to read ${errorMessage}`);
+            return undefined;
+        }
+    }
+
+    const profiles = new Map<string, ProfileItem>();
+    for (const [name, values] of Object.entries(config.get<Record<string, SettingValues>>('profiles', {}))) {
+        profiles.set(name, { label: name, description: 'settings', detail: describeSettings(values), values });
+    }
+    for (const [name, values] of Object.entries(file?.profiles ?? {})) {
+        profiles.set(name, { label: name, description: vscode.workspace.asRelativePath(configPath!), detail: describeSettings(values), values });
+    }
+
+    let profile: SettingValues = {};
+    if (profiles.size > 0) {
+        const picked = await vscode.window.showQuickPick<ProfileItem>([
+            { label: '$(settings-gear) No profile', description: file ? `settings and ${CONFIG_FILE_NAME}` : 'settings' },
+            ...profiles.values(),
+        ], {
+            title: 'Generation profile',
+            placeHolder: 'Select the profile to generate with',
+            matchOnDetail: true,
+        });
+        if (!picked) {
+            return undefined; // User cancelled
+        }
+        profile = picked.values ?? {};
+    }
+
+    const values = new Map(Object.entries({ ...file?.settings, ...profile }));
+    return values.size > 0 ? overlayConfiguration(config, values) : config;
+}
+
+/**
+ * Check whether a setting is set explicitly (user, workspace or folder, including language-specific values)
+ * rather than falling back to its default
+ */
+function isExplicitlySet(config: vscode.WorkspaceConfiguration, section: string): boolean {
+    const inspected = config.inspect(section);
+    if (!inspected) {
+        return false;
+    }
+    return [
+        inspected.globalValue, inspected.workspaceValue, inspected.workspaceFolderValue,
+        inspected.globalLanguageValue, inspected.workspaceLanguageValue, inspected.workspaceFolderLanguageValue,
+    ].some(value => value !== undefined);
+}
+
+/**
+ * Read the settings the core understands (converter options, nullable and attribute handling, ...),
+ * falling back to their defaults
+ */
+export function readSettings(config: vscode.WorkspaceConfiguration): CoreSettings {
+    const entries = Object.entries(DEFAULT_SETTINGS).map(([key, defaultValue]) => [key, config.get(key, defaultValue)]);
+    return Object.fromEntries(entries) as CoreSettings;
+}
+
+/**
+ * Read nullable, serialization attribute and attribute rendering settings.
+ * When a target project is known, its `<Nullable>` and Newtonsoft.Json package reference
+ * replace the defaults of settings the user has not set, and its C# version limits the output.
+ */
+export function readGenerationSettings(config: vscode.WorkspaceConfiguration, project?: ProjectSettings): GenerationSettings {
+    return resolveGenerationSettings(readSettings(config), project, key => isExplicitlySet(config, key));
+}
+
+/**
+ * Determine the root class name: use the default when `alwaysUseRootClassName` is enabled,
+ * otherwise prompt with the default prefilled. Returns undefined if the user cancelled.
+ */
+export async function promptRootClassName(
+    config: vscode.WorkspaceConfiguration,
+    defaultRootClassName: string = config.get<string>('rootClassName', 'Root')
+): Promise<RootClassNameChoice | undefined> {
+    if (config.get<boolean>('alwaysUseRootClassName', false)) {
+        return { name: defaultRootClassName, isCustom: false };
+    }
+
+    const userInput = await vscode.window.showInputBox({
+        prompt: 'Enter the root class name',
+        value: defaultRootClassName,
+        validateInput: (value) => {
+            if (!value.trim()) {
+                return 'Class name cannot be empty';
+            }
+            if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(value)) {
+                return 'Invalid C# class name';
+            }
+            return null;
+        }
+    });
+
+    if (!userInput) {
+        return undefined; // User cancelled
+    }
+    return { name: userInput, isCustom: userInput !== defaultRootClassName };
+}
+
+/**
+ * Declaration line of a generated class, record, struct or enum
+ */
+const DECLARATION_REGEX = /^\s*(?:(?:public|internal|static|abstract|sealed|partial|readonly)\s+)*(?:class|record|struct|enum)\s+(?:struct\s+|class\s+)?(\w+)/;
+
+/**
+ * Suffixes of helper types named after a generated type: serializer contexts, options classes and converters
+ */
+const HELPER_TYPE_SUFFIXES = ['JsonContext', 'JsonOptions', 'JsonSettings', 'Converter'];
+
+/**
+ * Let the user rename the generated types before they are inserted or written, when `reviewTypeNames` is enabled.
+ * Lists every generated class, record and enum, the root included, but not helper types (serializer contexts,
+ * converters, options classes); those follow the type they are named after (`RootJsonContext` → `OrderJsonContext`).
+ * Returns original → new name for each renamed type (empty when the review is off), or undefined if the user cancelled.
+ */
+export async function reviewTypeNames(
+    config: vscode.WorkspaceConfiguration,
+    code: string,
+    existingTypes?: Map<string, DeclaredType>
+): Promise<Map<string, string> | undefined> {
+    const renames = new Map<string, string>();
+    if (!config.get<boolean>('reviewTypeNames', false)) {
+        return renames;
+    }
+
+    // Declaration lines at any indentation, so nested types are listed too
+    const declarations = code.split('\n').flatMap(line => {
+        const declaration = DECLARATION_REGEX.exec(line);
+        return declaration ? [{ name: declaration[1], header: line.trim() }] : [];
+    });
+    const isHelper = (header: string) => /\bstatic\s+class\b|:\s*(?:JsonSerializerContext|JsonConverter)\b/.test(header);
+    const types = declarations.filter(type => !isHelper(type.header));
+    const helperNames = new Set(declarations.filter(type => isHelper(type.header)).map(type => type.name));
+    if (types.length === 0) {
+        return renames;
+    }
+
+    for (;;) {
+        const items: TypeNameItem[] = [
+            { label: '$(check) Use these names' },
+            ...types.map(type => {
+                const current = renames.get(type.name) ?? type.name;
+                return {
+                    label: current,
+                    description: current !== type.name ? `renamed from ${type.name}` : undefined,
+                    detail: type.header,
+                    originalName: type.name,
+                };
+            }),
+        ];
+        const picked = await vscode.window.showQuickPick(items, {
+            title: `Review ${types.length} generated type name${types.length === 1 ? '' : 's'}`,
+            placeHolder: 'Select a type to rename, or accept the names',
+            matchOnDescription: true,
+        });
+        if (!picked) {
+            return undefined; // User cancelled
+        }
+        if (!picked.originalName) {
+            for (const [original, renamed] of [...renames]) {
+                HELPER_TYPE_SUFFIXES
+                    .filter(suffix => helperNames.has(`${original}${suffix}`))
+                    .forEach(suffix => renames.set(`${original}${suffix}`, `${renamed}${suffix}`));
+            }
+            return renames;
+        }
+
+        const original = picked.originalName;
+        const current = renames.get(original) ?? original;
+        const taken = new Set([...existingTypes?.keys() ?? [], ...types.map(type => renames.get(type.name) ?? type.name)]);
+        taken.delete(current);
+        const newName = await vscode.window.showInputBox({
+            prompt: `Rename ${current}`,
+            value: current,
+            validateInput: (value) => {
+                if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(value)) {
+                    return 'Invalid C# type name';
+                }
+                if (taken.has(value)) {
+                    return `${value} is already used`;
+                }
+                return null;
+            }
+        });
+        if (newName && newName !== original) {
+            renames.set(original, newName);
+        } else if (newName) {
+            renames.delete(original);
+        }
+    }
+}
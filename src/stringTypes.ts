@@ -0,0 +1,165 @@
+/**
+ * Framework types that can be inferred from the format of JSON strings, plus integers and booleans encoded as strings
+ */
+export type StringTypeKind = 'Guid' | 'Uri' | 'DateOnly' | 'TimeOnly' | 'TimeSpan' | 'DateTimeOffset' | 'IntegerString' | 'BooleanString';
+
+/**
+ * Which string formats to turn into C# types
+ */
+export interface StringTypeInference {
+    kinds: StringTypeKind[];
+    /** Date and date-time strings without a more specific kind become `DateTime` */
+    dateTimes: boolean;
+}
+
+/**
+ * String values observed for a JSON property
+ */
+export interface ObservedStrings {
+    /** Distinct values in first-seen order */
+    values: Set<string>;
+    /** Number of string values seen */
+    count: number;
+    /** False when the property also had numbers, booleans, objects or arrays of those */
+    onlyStrings: boolean;
+}
+
+/**
+ * Walk the samples and record the string values of every property, per dot-separated path
+ * from the top level (arrays add no segment). Null values are ignored.
+ */
+export function observeStrings(samples: string[]): Map<string, ObservedStrings> {
+    const observed = new Map<string, ObservedStrings>();
+
+    const visit = (path: string, value: unknown): void => {
+        if (value === null) {
+            return;
+        }
+        if (Array.isArray(value)) {
+            value.forEach(item => visit(path, item));
+            return;
+        }
+        if (typeof value === 'object') {
+            for (const [key, child] of Object.entries(value)) {
+                visit(path ? `${path}.${key}` : key, child);
+            }
+            return;
+        }
+        const entry = observed.get(path) ?? { values: new Set<string>(), count: 0, onlyStrings: true };
+        observed.set(path, entry);
+        if (typeof value !== 'string') {
+            entry.onlyStrings = false;
+            return;
+        }
+        entry.count++;
+        entry.values.add(value);
+    };
+    samples.forEach(sample => visit('', JSON.parse(sample)));
+    return observed;
+}
+
+const GUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const URI = /^(?:https?|ftp):\/\/[^\s{}]+$/i;
+const DATE = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])$/;
+const DATE_TIME = /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\d|3[01])[T ](?:[01]\d|2[0-3]):[0-5]\d(?::[0-5]\d(?:\.\d+)?)?(Z|[+-](?:[01]\d|2[0-3]):?[0-5]\d)?$/i;
+const TIME_OF_DAY = /^(?:[01]\d|2[0-3]):[0-5]\d(?::[0-5]\d(?:\.\d+)?)?$/;
+// TimeSpan's constant ("c") format: [-][d.]hh:mm[:ss[.fffffff]]
+const TIME_SPAN = /^(-)?(\d+\.)?(\d{1,2}):[0-5]\d(?::[0-5]\d(?:\.\d+)?)?$/;
+const DURATION_KEY = /duration|elapsed|timeout|interval|delay|period|ttl|uptime/i;
+// Leading zeros (zip codes, account numbers) are not numbers; at most 18 digits always fit in a long
+const INTEGER = /^-?(?:0|[1-9]\d{0,17})$/;
+// ISO 8601 durations (`PT30M`, `P1DT12H`); not a C# type of their own, but not names either
+const ISO_DURATION = /^-?P(?=\d|T\d)(?:\d+(?:[.,]\d+)?[YMWD])*(?:T(?=\d)(?:\d+(?:[.,]\d+)?[HMS])+)?$/;
+const ALL_STRING_TYPES: StringTypeInference = {
+    kinds: ['Guid', 'Uri', 'DateOnly', 'TimeOnly', 'TimeSpan', 'DateTimeOffset', 'IntegerString', 'BooleanString'],
+    dateTimes: true,
+};
+
+/**
+ * C# type for a property whose non-null values are all strings in one recognized format,
+ * or undefined when the values stay strings.
+ * Checked in order: Guid, DateOnly, DateTimeOffset/DateTime, TimeSpan, TimeOnly, Uri, integer and boolean strings.
+ * Strings shaped like a time of day are only a TimeSpan when a value has days, a sign or 24+ hours,
+ * or the JSON key reads like a duration (`timeout`, `elapsed`, ...).
+ */
+export function inferStringType(key: string, values: string[], inference: StringTypeInference): string | undefined {
+    const enabled = (kind: StringTypeKind) => inference.kinds.includes(kind);
+    const all = (pattern: RegExp) => values.length > 0 && values.every(value => pattern.test(value));
+
+    if (enabled('Guid') && all(GUID)) {
+        return 'Guid';
+    }
+    if (all(DATE) && (enabled('DateOnly') || inference.dateTimes)) {
+        return enabled('DateOnly') ? 'DateOnly' : 'DateTime';
+    }
+    if (values.length > 0 && values.every(value => DATE.test(value) || DATE_TIME.test(value))) {
+        const withOffset = values.every(value => DATE_TIME.exec(value)?.[1] !== undefined);
+        if (withOffset && enabled('DateTimeOffset')) {
+            return 'DateTimeOffset';
+        }
+        if (inference.dateTimes) {
+            return 'DateTime';
+        }
+    }
+    if (enabled('TimeSpan') && all(TIME_SPAN)) {
+        const isDuration = DURATION_KEY.test(key) || values.some(value => {
+            const [, sign, days, hours] = TIME_SPAN.exec(value)!;
+            return sign !== undefined || days !== undefined || Number(hours) >= 24;
+        });
+        if (isDuration) {
+            return 'TimeSpan';
+        }
+    }
+    if (enabled('TimeOnly') && all(TIME_OF_DAY)) {
+        return 'TimeOnly';
+    }
+    if (enabled('Uri') && all(URI)) {
+        return 'Uri';
+    }
+    if (enabled('IntegerString') && all(INTEGER)) {
+        return 'long';
+    }
+    if (enabled('BooleanString') && values.every(value => value === 'true' || value === 'false')) {
+        return 'bool';
+    }
+    return undefined;
+}
+
+/**
+ * Whether a string is in a recognized format (any `inferStringType()` kind, enabled or not, or an ISO 8601 duration),
+ * and so a value rather than a name
+ */
+export function isFormattedString(value: string): boolean {
+    return ISO_DURATION.test(value) || inferStringType('', [value], ALL_STRING_TYPES) !== undefined;
+}
+
+/**
+ * Collect the properties whose string values map to a C# type, per dot-separated path from the top level.
+ * Returns path → C# type (`long` and `bool` for integer and boolean strings).
+ */
+export function collectStringTypes(samples: string[], inference: StringTypeInference): Map<string, string> {
+    const types = new Map<string, string>();
+    for (const [path, { values, onlyStrings }] of observeStrings(samples)) {
+        const type = path !== '' && onlyStrings ? inferStringType(path.split('.').pop()!, [...values], inference) : undefined;
+        if (type) {
+            types.set(path, type);
+        }
+    }
+    return types;
+}
+
+/**
+ * System.Text.Json converter for booleans written as `"true"` / `"false"` strings
+ */
+export function buildBooleanStringConverter(): string {
+    return [
+        'public class BooleanStringConverter : JsonConverter<bool>',
+        '{',
+        '    public override bool Read(ref Utf8JsonReader reader, Type typeToConvert, JsonSerializerOptions options) =>',
+        '        reader.TokenType == JsonTokenType.String ? bool.Parse(reader.GetString() ?? "false") : reader.GetBoolean();',
+        '',
+        '    public override void Write(Utf8JsonWriter writer, bool value, JsonSerializerOptions options) =>',
+        '        writer.WriteStringValue(value ? "true" : "false");',
+        '}',
+    ].join('\n');
+}
@@ -0,0 +1,162 @@
+import { TypeModel } from './typeModel';
+import { renameTypes, uniqueTypeName } from './typeNames';
+
+/**
+ * Where generated types are declared: as top-level siblings, inside the root type,
+ * or inside the only type whose properties use them (else inside the root type)
+ */
+export type TypeNesting = 'none' | 'root' | 'parent';
+
+/**
+ * Order of the generated types: the root type first and the rest as generated,
+ * types before the types that use them, or by name
+ */
+export type TypeOrder = 'rootFirst' | 'dependencies' | 'alphabetical';
+
+/**
+ * Names of the generated types that appear in the given type expressions
+ */
+function typeNamesIn(types: (string | undefined)[], names: Set<string>): Set<string> {
+    const words = types.flatMap(type => type?.match(/\w+/g) ?? []);
+    return new Set(words.filter(word => names.has(word)));
+}
+
+/**
+ * Types ordered as configured. In dependency order, the property and base types of a type come before it
+ * (types in a cycle keep their generated order).
+ */
+function orderTypes(types: TypeModel[], rootName: string, order: TypeOrder): TypeModel[] {
+    if (order === 'alphabetical') {
+        return [...types].sort((a, b) => a.name.localeCompare(b.name));
+    }
+    if (order === 'rootFirst') {
+        return [...types].sort((a, b) => Number(b.name === rootName) - Number(a.name === rootName));
+    }
+
+    const names = new Set(types.map(type => type.name));
+    const byName = new Map(types.map(type => [type.name, type]));
+    const ordered: TypeModel[] = [];
+    const visited = new Set<string>();
+    const visit = (type: TypeModel): void => {
+        if (visited.has(type.name)) {
+            return;
+        }
+        visited.add(type.name);
+        const used = typeNamesIn([...(type.properties ?? []).map(property => property.type), type.baseType], names);
+        used.forEach(name => visit(byName.get(name)!));
+        ordered.push(type);
+    };
+    types.forEach(visit);
+    return ordered;
+}
+
+/**
+ * Name of the type each nested type is declared in. Derived types and types only named in attributes
+ * (converters) are declared next to the type they belong to; types used by several types go into the root type.
+ */
+function assignContainers(types: TypeModel[], root: TypeModel, nesting: Exclude<TypeNesting, 'none'>): Map<string, string> {
+    const names = new Set(types.map(type => type.name));
+    const users = new Map(types.map(type => [type.name, [] as string[]]));
+    for (const type of types) {
+        typeNamesIn((type.properties ?? []).map(property => property.type), names).forEach(name => {
+            if (name !== type.name) {
+                users.get(name)!.push(type.name);
+            }
+        });
+    }
+    const owners = new Map<string, string>();
+    for (const type of types) {
+        typeNamesIn(type.leading, names).forEach(name => {
+            if (name !== type.name && name !== root.name && users.get(name)!.length === 0) {
+                owners.set(name, type.name);
+            }
+        });
+        if (type.baseType && names.has(type.baseType)) {
+            owners.set(type.name, type.baseType);
+        }
+    }
+
+    const containers = new Map<string, string>();
+    for (const type of types.filter(type => type !== root && !owners.has(type.name))) {
+        const typeUsers = users.get(type.name)!;
+        containers.set(type.name, nesting === 'parent' && typeUsers.length === 1 ? typeUsers[0] : root.name);
+    }
+    for (const name of owners.keys()) {
+        const visited = new Set([name]);
+        let owner = owners.get(name)!;
+        while (owners.has(owner) && !visited.has(owner)) {
+            visited.add(owner);
+            owner = owners.get(owner)!;
+        }
+        containers.set(name, containers.get(owner) ?? root.name);
+    }
+
+    // Types that use each other without the root in between would contain each other
+    for (const name of containers.keys()) {
+        const chain = new Set([name]);
+        let container = containers.get(name)!;
+        while (container !== root.name && !chain.has(container)) {
+            chain.add(container);
+            container = containers.get(container)!;
+        }
+        if (container !== root.name) {
+            containers.set(name, root.name);
+        }
+    }
+    return containers;
+}
+
+/**
+ * Rename types in type expressions, attribute lines and bodies
+ */
+function applyRenames(types: TypeModel[], renames: Map<string, string>): void {
+    const renameType = (type: string): string => type.replace(/\w+/g, word => renames.get(word) ?? word);
+    for (const type of types) {
+        type.name = renames.get(type.name) ?? type.name;
+        type.baseType = type.baseType && renameType(type.baseType);
+        type.leading = type.leading.map(line => renameTypes(line, renames));
+        type.body = type.body && renameTypes(type.body, renames);
+        for (const property of type.properties ?? []) {
+            property.type = renameType(property.type);
+            property.attributes = property.attributes.map(attribute => renameTypes(attribute, renames));
+        }
+    }
+}
+
+/**
+ * Order the generated types and, when nesting is enabled, move them into the root type or their parent type.
+ * A nested type can't share its name with a member of the type declaring it (`public Address Address`),
+ * so such types get a `Type` suffix. Returns the top-level types; without a root type with properties
+ * (e.g. an array root), types stay top-level.
+ */
+export function arrangeTypes(types: TypeModel[], rootName: string, nesting: TypeNesting, order: TypeOrder): TypeModel[] {
+    const rank = new Map(orderTypes(types, rootName, order).map((type, index) => [type, index]));
+    const byRank = (a: TypeModel, b: TypeModel) => rank.get(a)! - rank.get(b)!;
+    const root = types.find(type => type.name === rootName && type.properties);
+    if (nesting === 'none' || !root) {
+        return [...types].sort(byRank);
+    }
+
+    const containers = assignContainers(types, root, nesting);
+    const byName = new Map(types.map(type => [type.name, type]));
+    const taken = new Set(byName.keys());
+    const renames = new Map<string, string>();
+    for (const [name, containerName] of containers) {
+        const members = new Set(byName.get(containerName)!.properties!.map(property => property.name));
+        if (members.has(name)) {
+            const renamed = uniqueTypeName(`${name}Type`, { has: (candidate: string) => taken.has(candidate) || members.has(candidate) });
+            taken.add(renamed);
+            renames.set(name, renamed);
+        }
+    }
+
+    for (const [name, containerName] of containers) {
+        const container = byName.get(containerName)!;
+        container.nested = [...(container.nested ?? []), byName.get(name)!].sort(byRank);
+    }
+    const topLevel = types.filter(type => !containers.has(type.name)).sort(byRank);
+    if (renames.size > 0) {
+        applyRenames(types, renames);
+    }
+    return topLevel;
+}
@@ -0,0 +1,192 @@
+import { splitTypeDeclarations } from './typeNames';
+
+/**
+ * A property of a generated type: `public [modifiers] Type Name { accessors } [= initializer;]`
+ */
+export interface PropertyModel {
+    /** Doc comment lines above the property, unindented */
+    comments: string[];
+    /** Attribute lines above the property, unindented, e.g. `[JsonPropertyName("first_name")]` */
+    attributes: string[];
+    /** Modifiers after the accessibility, e.g. `required` or `override` */
+    modifiers: string[];
+    type: string;
+    name: string;
+    /** Accessor list without braces, e.g. `get; set;` */
+    accessors: string;
+    initializer?: string;
+    /** Declared in the body of a positional record instead of as a parameter */
+    inBody?: boolean;
+}
+
+/**
+ * A top-level type declaration of the generated code
+ */
+export interface TypeModel {
+    name: string;
+    /** Doc comment and attribute lines above the declaration */
+    leading: string[];
+    accessibility: string;
+    /** Modifiers between the accessibility and the keyword, e.g. `abstract` or `sealed` */
+    modifiers: string[];
+    /** `class`, `record`, `record struct`, `enum`, ... */
+    keyword: string;
+    /** Base type list after `:` */
+    baseType?: string;
+    /** Properties, when the body has no other members */
+    properties?: PropertyModel[];
+    /** Properties are separated by blank lines (quicktype only does so when some property has attributes) */
+    spaced?: boolean;
+    /** Text after the declaration line, for types with other members (enums, converters), kept as is */
+    body?: string;
+    /** Render as a positional record (`record Foo(string Bar);`) instead of a body with properties */
+    positional?: boolean;
+    /** Types declared inside this one, after its properties */
+    nested?: TypeModel[];
+}
+
+const HEADER_REGEX = /^(public|internal)\s+((?:(?:static|abstract|sealed|partial|readonly)\s+)*)(record\s+struct|record\s+class|record|class|struct|enum|interface)\s+(\w+)(?:\s*:\s*([^{]+?))?\s*(\{.*)?$/;
+// The type is everything up to the last space before the name, so generic arguments may contain spaces
+const PROPERTY_REGEX = /^public\s+((?:(?:required|abstract|override|virtual|new|static)\s+)*)(.+?)\s+(@?\w+)\s*\{\s*([^{}]*?)\s*\}(?:\s*=\s*(.+);)?$/;
+
+/**
+ * Parse the body lines of a type into properties, or return undefined when the body has other members
+ */
+function parseProperties(lines: string[]): PropertyModel[] | undefined {
+    const properties: PropertyModel[] = [];
+    let comments: string[] = [];
+    let attributes: string[] = [];
+
+    for (const line of lines.map(line => line.trim())) {
+        if (!line) {
+            continue;
+        }
+        if (line.startsWith('///')) {
+            comments.push(line);
+            continue;
+        }
+        if (line.startsWith('[') && line.endsWith(']')) {
+            attributes.push(line);
+            continue;
+        }
+        const property = PROPERTY_REGEX.exec(line);
+        if (!property) {
+            return undefined;
+        }
+        const [, modifiers, type, name, accessors, initializer] = property;
+        properties.push({ comments, attributes, modifiers: modifiers.split(/\s+/).filter(m => m), type, name, accessors, initializer });
+        comments = [];
+        attributes = [];
+    }
+    return comments.length === 0 && attributes.length === 0 ? properties : undefined;
+}
+
+/**
+ * Parse generated code (top-level declarations without namespace) into type models.
+ * Classes, records and structs whose body only has properties get a property list;
+ * other declarations keep their body text.
+ */
+export function parseTypeModels(code: string): TypeModel[] {
+    return splitTypeDeclarations(code).map(({ code: source }) => {
+        const lines = source.split('\n');
+        const headerIndex = lines.findIndex(line => HEADER_REGEX.test(line));
+        const [, accessibility, modifiers, keyword, name, baseType, inlineBody] = HEADER_REGEX.exec(lines[headerIndex])!;
+        const type: TypeModel = {
+            name,
+            leading: lines.slice(0, headerIndex),
+            accessibility,
+            modifiers: modifiers.split(/\s+/).filter(m => m),
+            keyword: keyword.replace(/\s+/g, ' '),
+            baseType,
+        };
+
+        const rest = lines.slice(headerIndex + 1);
+        const hasBlock = !inlineBody && keyword !== 'enum' && rest[0]?.trim() === '{' && rest[rest.length - 1]?.trim() === '}';
+        const properties = hasBlock ? parseProperties(rest.slice(1, -1)) : undefined;
+        if (properties) {
+            type.properties = properties;
+            type.spaced = rest.some(line => line.trim() === '');
+        } else {
+            type.body = [inlineBody ? ` ${inlineBody}` : '', ...rest.map(line => `\n${line}`)].join('');
+        }
+        return type;
+    });
+}
+
+/**
+ * Declaration line of a type, e.g. `public sealed class Circle : Shape`
+ */
+function renderHeader(type: TypeModel): string {
+    const header = [type.accessibility, ...type.modifiers, type.keyword, type.name].join(' ');
+    return type.baseType ? `${header} : ${type.baseType}` : header;
+}
+
+/**
+ * Render a property with its comments and attributes, indented for a type body
+ */
+function renderProperty(property: PropertyModel): string {
+    const declaration = ['public', ...property.modifiers, property.type, property.name, `{ ${property.accessors} }`].join(' ');
+    return [
+        ...property.comments,
+        ...property.attributes,
+        property.initializer !== undefined ? `${declaration} = ${property.initializer};` : declaration,
+    ].map(line => `    ${line}`).join('\n');
+}
+
+// Validation reads the attributes of record constructor parameters, so these keep the parameter target
+const VALIDATION_ATTRIBUTE_REGEX = /^\[(?:Required|StringLength|Range|EmailAddress|Url|Phone)\b/;
+
+/**
+ * Render a property as a positional record parameter; attributes other than validation attributes get the `property:` target
+ */
+function renderParameter(property: PropertyModel): string {
+    const attributes = property.attributes.map(attribute =>
+        VALIDATION_ATTRIBUTE_REGEX.test(attribute) ? `${attribute} ` : `[property: ${attribute.slice(1)} `);
+    return `${attributes.join('')}${property.type} ${property.name}`;
+}
+
+/**
+ * Doc comment of a positional record parameter: the property's summary and example as a `<param>` element
+ */
+function renderParameterComment(property: PropertyModel): string | undefined {
+    const text = property.comments.map(line => line.replace(/^\/\/\/\s?/, '')).join('\n');
+    const summary = /<summary>([\s\S]*?)<\/summary>/.exec(text)?.[1].split('\n').map(line => line.trim()).filter(line => line).join(' ');
+    const example = /<example>([\s\S]*?)<\/example>/.exec(text)?.[1].trim();
+    if (!summary && !example) {
+        return undefined;
+    }
+    const sentence = summary && !/[.!?]$/.test(summary) ? `${summary}.` : summary;
+    const description = [sentence, example && `Example: <c>${example}</c>`].filter(part => part).join(' ');
+    return `/// <param name="${property.name.replace(/^@/, '')}">${description}</param>`;
+}
+
+/**
+ * Render type models back to C# code, declarations separated by blank lines
+ */
+export function renderTypeModels(types: TypeModel[]): string {
+    return types.map(type => {
+        const lines = [...type.leading];
+        // Nested declarations are indented one level, blank lines stay empty
+        const nested = type.nested?.length
+            ? [renderTypeModels(type.nested).split('\n').map(line => line ? `    ${line}` : line).join('\n')]
+            : [];
+        if (type.properties && type.positional) {
+            // Parameter docs go after the type's own doc comment, ahead of its attributes
+            const parameterComments = type.properties.filter(property => !property.inBody).flatMap(property => renderParameterComment(property) ?? []);
+            const docLines = lines.findIndex(line => !line.startsWith('///'));
+            lines.splice(docLines < 0 ? lines.length : docLines, 0, ...parameterComments);
+            const parameters = type.properties.filter(property => !property.inBody).map(renderParameter).join(', ');
+            const members = [...type.properties.filter(property => property.inBody).map(renderProperty), ...nested];
+            lines.push(members.length > 0
+                ? `${renderHeader(type)}(${parameters})\n{\n${members.join('\n\n')}\n}`
+                : `${renderHeader(type)}(${parameters});`);
+        } else if (type.properties) {
+            const properties = type.properties.length > 0 ? [type.properties.map(renderProperty).join(type.spaced ? '\n\n' : '\n')] : [];
+            const members = [...properties, ...nested];
+            lines.push(renderHeader(type), '{', ...(members.length > 0 ? [members.join('\n\n')] : []), '}');
+        } else {
+            lines.push(`${renderHeader(type)}${type.body}`);
+        }
+        return lines.join('\n');
+    }).join('\n\n');
+}
@@ -0,0 +1,352 @@
+/**
+ * A top-level type declaration and its source text
+ */
+export interface TypeDeclaration {
+    typeName: string;
+    code: string;
+}
+
+/**
+ * Shape of a declared class, record, struct or enum, used for structural comparison
+ */
+export interface DeclaredType {
+    name: string;
+    kind: 'type' | 'enum';
+    /** Member name → normalized member type (empty for enum members) */
+    members: Map<string, string>;
+    /** Member name → JSON name from its `[JsonPropertyName]` / `[JsonProperty]` attribute, for members that have one */
+    jsonNames: Map<string, string>;
+    /** Base type after `:`, if any */
+    baseType?: string;
+}
+
+/**
+ * Keywords after which an identifier is always a type name
+ */
+const TYPE_CONTEXT_KEYWORDS = new Set(['class', 'record', 'struct', 'enum', 'interface', 'new', 'typeof', 'nameof']);
+
+/**
+ * Split generated code into its top-level type declarations.
+ * Leading attribute and doc comment lines are kept with the declaration they precede.
+ */
+export function splitTypeDeclarations(code: string): TypeDeclaration[] {
+    const lines = code.split('\n');
+    const declarations: { typeName: string; start: number }[] = [];
+    let leadingStart: number | undefined;
+
+    lines.forEach((line, index) => {
+        const declaration = line.match(/^(?:(?:public|internal|static|abstract|sealed|partial|readonly)\s+)*(?:class|record|struct|enum|interface)\s+(?:struct\s+|class\s+)?(\w+)/);
+        if (declaration) {
+            declarations.push({ typeName: declaration[1], start: leadingStart ?? index });
+            leadingStart = undefined;
+        } else if (/^(?:\[|\/\/\/)/.test(line)) {
+            leadingStart ??= index;
+        } else {
+            leadingStart = undefined;
+        }
+    });
+
+    return declarations.map((declaration, i) => ({
+        typeName: declaration.typeName,
+        code: lines.slice(declaration.start, declarations[i + 1]?.start ?? lines.length).join('\n').trim(),
+    }));
+}
+
+/**
+ * Find the index of the brace closing the one at `openIndex`
+ */
+export function findClosingBrace(code: string, openIndex: number): number {
+    let depth = 0;
+    for (let i = openIndex; i < code.length; i++) {
+        if (code[i] === '{') {
+            depth++;
+        } else if (code[i] === '}') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return code.length;
+}
+
+/**
+ * Split a parameter list on commas that are not nested in generics, brackets or parentheses
+ */
+export function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of text) {
+        if (ch === '<' || ch === '[' || ch === '(') {
+            depth++;
+        } else if (ch === '>' || ch === ']' || ch === ')') {
+            depth--;
+        }
+        if (ch === ',' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) {
+        parts.push(current);
+    }
+    return parts;
+}
+
+/**
+ * JSON name of the last `[JsonPropertyName("key")]` or `[JsonProperty("key")]` attribute in the text before a member
+ * (`property:` targets of positional records included)
+ */
+function jsonNameAttribute(text: string): string | undefined {
+    const matches = [...text.matchAll(/[[,]\s*(?:property:\s*)?(?:JsonPropertyName|JsonProperty)\s*\(\s*"((?:[^"\\\n]|\\.)*)"/g)];
+    return matches.length > 0 ? matches[matches.length - 1][1] : undefined;
+}
+
+/**
+ * Normalize a member type for comparison: ignore whitespace and nullability
+ */
+function normalizeType(type: string): string {
+    return type.replace(/\s+/g, '').replace(/\?/g, '');
+}
+
+/**
+ * Collect the classes, records, structs and enums declared in C# source,
+ * including property members and positional record parameters.
+ */
+export function collectDeclaredTypes(code: string): Map<string, DeclaredType> {
+    const types = new Map<string, DeclaredType>();
+    // Blank out comments and string literals so they can't be mistaken for declarations. Lengths are kept,
+    // so JSON name attributes can be read from `text` at the offsets found in `source`.
+    const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+    const text = code
+        .replace(/\/\/.*$/gm, blank)
+        .replace(/\/\*[\s\S]*?\*\//g, blank);
+    const source = text.replace(/"(?:[^"\\\n]|\\.)*"/g, match => `"${blank(match.slice(2))}"`);
+
+    const declarationRegex = /\b(class|record|struct|enum|interface)\s+(?:struct\s+|class\s+)?([A-Za-z_]\w*)/g;
+    let match: RegExpExecArray | null;
+    while ((match = declarationRegex.exec(source)) !== null) {
+        const [, keyword, name] = match;
+        const members = new Map<string, string>();
+        const jsonNames = new Map<string, string>();
+        let index = declarationRegex.lastIndex;
+
+        if (keyword === 'enum') {
+            const open = source.indexOf('{', index);
+            const close = findClosingBrace(source, open);
+            for (const member of source.slice(open + 1, close).split(',')) {
+                const memberName = member.replace(/\[[^\]]*\]/g, '').split('=')[0].trim();
+                if (memberName) {
+                    members.set(memberName, '');
+                }
+            }
+            types.set(name, { name, kind: 'enum', members, jsonNames });
+            continue;
+        }
+
+        // Positional record parameters: record Foo(Type Name, ...)
+        const paramsMatch = /^\s*(?:<[^>]*>)?\s*\(/.exec(source.slice(index));
+        if (paramsMatch) {
+            let depth = 0;
+            const start = index + paramsMatch[0].length;
+            let end = start;
+            for (; end < source.length; end++) {
+                if (source[end] === '(') {
+                    depth++;
+                } else if (source[end] === ')') {
+                    if (depth === 0) {
+                        break;
+                    }
+                    depth--;
+                }
+            }
+            let offset = start;
+            for (const param of splitTopLevel(source.slice(start, end))) {
+                const cleaned = param.replace(/\[[^\]]*\]/g, '').split('=')[0].trim();
+                const paramMatch = /^(.+?)\s+(@?\w+)$/.exec(cleaned);
+                if (paramMatch) {
+                    members.set(paramMatch[2], normalizeType(paramMatch[1]));
+                    const jsonName = jsonNameAttribute(text.slice(offset, offset + param.length));
+                    if (jsonName !== undefined) {
+                        jsonNames.set(paramMatch[2], jsonName);
+                    }
+                }
+                offset += param.length + 1;
+            }
+            index = end + 1;
+        }
+
+        // Base type: class Foo : Bar
+        const baseType = /^\s*:\s*([\w.]+)/.exec(source.slice(index))?.[1];
+
+        // Body properties: [modifiers] Type Name { get; ... }
+        const rest = source.slice(index);
+        const bodyMatch = /^[^{;]*\{/.exec(rest);
+        if (bodyMatch) {
+            const open = index + bodyMatch[0].length - 1;
+            const close = findClosingBrace(source, open);
+            const body = source.slice(open + 1, close);
+            const bodyText = text.slice(open + 1, close);
+            const propertyRegex = /(?:public|internal|protected|private)\s+(?:(?:required|virtual|override|new|static)\s+)*([\w.]+(?:\s*<[^{};=]*>)?(?:\[\])?\??)\s+(@?\w+)\s*\{\s*(?:get|set|init)\b/g;
+            let propMatch: RegExpExecArray | null;
+            let previousEnd = 0;
+            while ((propMatch = propertyRegex.exec(body)) !== null) {
+                members.set(propMatch[2], normalizeType(propMatch[1]));
+                // Attributes sit between the previous property and this one
+                const jsonName = jsonNameAttribute(bodyText.slice(previousEnd, propMatch.index));
+                if (jsonName !== undefined) {
+                    jsonNames.set(propMatch[2], jsonName);
+                }
+                previousEnd = propertyRegex.lastIndex;
+            }
+        }
+
+        types.set(name, { name, kind: 'type', members, jsonNames, baseType });
+    }
+
+    return types;
+}
+
+/**
+ * Rename type references in C# source without touching member names that happen to match.
+ * An identifier counts as a type reference when it follows a declaring keyword (`class`, `new`, ...)
+ * or a base type colon, appears inside generic arguments, or is followed by `?`, `[`, `<`, `.` or another identifier.
+ * String literals are left untouched.
+ */
+export function renameTypes(code: string, renames: Map<string, string>): string {
+    if (renames.size === 0) {
+        return code;
+    }
+
+    const tokenRegex = /"(?:[^"\\\n]|\\.)*"|\/\/[^\n]*|[<>]|@?[A-Za-z_]\w*/g;
+    let genericDepth = 0;
+    let previousWord = '';
+
+    return code.replace(tokenRegex, (token, offset: number) => {
+        if (token === '<') {
+            genericDepth++;
+            return token;
+        }
+        if (token === '>') {
+            genericDepth = Math.max(0, genericDepth - 1);
+            return token;
+        }
+        if (token.startsWith('"') || token.startsWith('//')) {
+            return token;
+        }
+
+        const keyword = previousWord;
+        previousWord = token;
+        const renamed = renames.get(token);
+        if (renamed === undefined) {
+            return token;
+        }
+
+        const following = code.slice(offset + token.length, offset + token.length + 64);
+        const isTypeReference = TYPE_CONTEXT_KEYWORDS.has(keyword)
+            || /\b(?:class|record)\s+\w+\s*:\s*$/.test(code.slice(Math.max(0, offset - 128), offset))
+            || genericDepth > 0
+            || /^(?:\?|\[|<|\.\w|\s+@?[A-Za-z_])/.test(following);
+        return isTypeReference ? renamed : token;
+    });
+}
+
+/**
+ * Return `name`, or `name` with the lowest numeric suffix (starting at 2) that is not taken
+ */
+export function uniqueTypeName(name: string, taken: { has(name: string): boolean }): string {
+    let candidate = name;
+    let suffix = 2;
+    while (taken.has(candidate)) {
+        candidate = `${name}${suffix++}`;
+    }
+    return candidate;
+}
+
+/**
+ * Check whether a generated type has the same shape as an existing type,
+ * after mapping generated type names in member types through `mapping`.
+ * Members must also map to the same JSON name: the one from their attribute, else the member name.
+ */
+function isStructurallyIdentical(generated: DeclaredType, existing: DeclaredType, mapping: Map<string, string>): boolean {
+    if (generated.kind !== existing.kind || generated.members.size !== existing.members.size || generated.members.size === 0) {
+        return false;
+    }
+    const baseType = generated.baseType && (mapping.get(generated.baseType) ?? generated.baseType);
+    if (baseType !== existing.baseType) {
+        return false;
+    }
+    for (const [memberName, memberType] of generated.members) {
+        const mappedType = memberType.replace(/\w+/g, id => mapping.get(id) ?? id);
+        if (existing.members.get(memberName) !== mappedType) {
+            return false;
+        }
+        const jsonName = (type: DeclaredType) => type.jsonNames.get(memberName) ?? memberName.replace(/^@/, '');
+        if (jsonName(generated) !== jsonName(existing)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Resolve conflicts between generated type names and types that already exist in the target.
+ * - Generated types structurally identical to an existing type are dropped and their references
+ *   point to the existing type (when `reuseIdentical` is enabled; never for the root type)
+ * - Remaining conflicting types are prefixed with the root class name (`Item` → `OrderItem`),
+ *   falling back to a numeric suffix (`OrderItem2`) when the prefixed name is also taken
+ */
+export function resolveTypeNameConflicts(
+    code: string,
+    existingTypes: Map<string, DeclaredType>,
+    rootClassName: string,
+    reuseIdentical: boolean
+): string {
+    if (existingTypes.size === 0) {
+        return code;
+    }
+
+    // Nested types are scoped to the type declaring them, so only top-level types can conflict
+    const declaredTypes = collectDeclaredTypes(code);
+    const topLevelNames = new Set(splitTypeDeclarations(code).map(declaration => declaration.typeName));
+    const generatedTypes = new Map([...declaredTypes].filter(([name]) => topLevelNames.has(name)));
+    const renames = new Map<string, string>();
+    const reused = new Set<string>();
+
+    // Reuse structurally identical types; repeat so parents of reused types can match too
+    if (reuseIdentical) {
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (const generated of generatedTypes.values()) {
+                if (reused.has(generated.name) || generated.name === rootClassName) {
+                    continue;
+                }
+                const identical = [...existingTypes.values()].find(existing => isStructurallyIdentical(generated, existing, renames));
+                if (identical) {
+                    reused.add(generated.name);
+                    renames.set(generated.name, identical.name);
+                    changed = true;
+                }
+            }
+        }
+    }
+
+    // Rename the remaining conflicting types (the root name is the user's choice and is kept)
+    const taken = new Set([...existingTypes.keys(), ...declaredTypes.keys()]);
+    for (const generated of generatedTypes.values()) {
+        if (reused.has(generated.name) || generated.name === rootClassName || !existingTypes.has(generated.name)) {
+            continue;
+        }
+        const prefixed = generated.name.startsWith(rootClassName) ? generated.name : `${rootClassName}${generated.name}`;
+        const candidate = uniqueTypeName(prefixed, taken);
+        taken.add(candidate);
+        renames.set(generated.name, candidate);
+    }
+
+    const kept = splitTypeDeclarations(code).filter(declaration => !reused.has(declaration.typeName));
+    return renameTypes(kept.map(declaration => declaration.code).join('\n\n'), renames);
+}
@@ -73,3 +73,257 @@ export function validateJson(jsonString: string): ValidationResult {
         };
     }
 }
+
+/**
+ * Result of lenient JSON repair
+ */
+export interface RepairResult {
+    json: string;
+    repairs: string[];
+}
+
+/**
+ * Normalize lenient JSON-like input (JSONC, JSON5, JavaScript object literals) to strict JSON.
+ * Handles comments, trailing commas, single-quoted strings, unquoted keys, JavaScript
+ * literals (undefined, NaN, Infinity), non-standard numbers and assignment wrappers
+ * such as `const data = {...};`. Returns the normalized text and a list of repairs made.
+ */
+export function repairJson(input: string): RepairResult {
+    const repairs = new Set<string>();
+    let text = input.replace(/^\uFEFF/, '').trim();
+
+    // Strip JavaScript assignment wrappers: `export default`, `module.exports =`, `const x =`
+    const assignment = text.match(/^(?:export\s+default\s+|module\.exports\s*=\s*|(?:const|let|var)\s+[\w$]+\s*(?::[^=]+)?=\s*)/);
+    if (assignment) {
+        text = text.slice(assignment[0].length);
+        repairs.add('JavaScript assignment');
+    }
+    if (/;\s*$/.test(text)) {
+        text = text.replace(/;\s*$/, '');
+        repairs.add('trailing semicolon');
+    }
+
+    const numberPattern = /[+-]?(?:0[xX][0-9a-fA-F]+|\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)/y;
+    const identPattern = /[A-Za-z_$][\w$]*/y;
+    let out = '';
+    let i = 0;
+
+    /** Skip whitespace and comments starting at position `pos`, returning the next significant index */
+    const skipTrivia = (pos: number): number => {
+        while (pos < text.length) {
+            const ch = text[pos];
+            if (/\s/.test(ch)) {
+                pos++;
+            } else if (ch === '/' && text[pos + 1] === '/') {
+                const end = text.indexOf('\n', pos);
+                pos = end === -1 ? text.length : end;
+            } else if (ch === '/' && text[pos + 1] === '*') {
+                const end = text.indexOf('*/', pos + 2);
+                pos = end === -1 ? text.length : end + 2;
+            } else {
+                break;
+            }
+        }
+        return pos;
+    };
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        // Comments
+        if (ch === '/' && (text[i + 1] === '/' || text[i + 1] === '*')) {
+            const next = skipTrivia(i);
+            // Preserve line breaks so positions in error messages stay meaningful
+            out += text.slice(i, next).includes('\n') ? '\n' : ' ';
+            i = next;
+            repairs.add('comments');
+            continue;
+        }
+
+        // Strings
+        if (ch === '"' || ch === '\'' || ch === '`') {
+            let value = '';
+            let j = i + 1;
+            while (j < text.length && text[j] !== ch) {
+                if (text[j] === '\\' && j + 1 < text.length) {
+                    const escaped = text[j + 1];
+                    if (escaped === '\n' || escaped === '\r') {
+                        // JSON5 line continuation
+                        j += escaped === '\r' && text[j + 2] === '\n' ? 3 : 2;
+                        repairs.add('line continuations');
+                        continue;
+                    }
+                    if (escaped === '\'' || escaped === '`') {
+                        value += escaped;
+                    } else if (escaped === 'x') {
+                        value += `\\u00${text.slice(j + 2, j + 4)}`;
+                        j += 4;
+                        continue;
+                    } else {
+                        value += text.slice(j, j + 2);
+                    }
+                    j += 2;
+                    continue;
+                }
+                const c = text[j];
+                if (c === '"' && ch !== '"') {
+                    value += '\\"';
+                } else if (c === '\n') {
+                    value += '\\n';
+                } else if (c === '\r') {
+                    value += '\\r';
+                } else if (c === '\t') {
+                    value += '\\t';
+                } else {
+                    value += c;
+                }
+                j++;
+            }
+            if (ch !== '"') {
+                repairs.add(ch === '\'' ? 'single quotes' : 'template strings');
+            }
+            out += `"${value}"`;
+            i = j + 1;
+            continue;
+        }
+
+        // Trailing commas
+        if (ch === ',') {
+            const next = skipTrivia(i + 1);
+            if (text[next] === '}' || text[next] === ']') {
+                repairs.add('trailing commas');
+                i++;
+                continue;
+            }
+            out += ch;
+            i++;
+            continue;
+        }
+
+        // Numbers: leading '+', leading/trailing '.', hexadecimal
+        numberPattern.lastIndex = i;
+        const numberMatch = numberPattern.exec(text);
+        if (numberMatch && (/[\d.+]/.test(ch) || (ch === '-' && /[\d.]/.test(text[i + 1] ?? '')))) {
+            const raw = numberMatch[0];
+            let normalized = raw.replace(/^\+/, '');
+            if (/^-?0[xX]/.test(normalized)) {
+                const negative = normalized.startsWith('-');
+                normalized = `${negative ? '-' : ''}${parseInt(normalized.replace(/^-/, ''), 16)}`;
+            } else {
+                normalized = normalized.replace(/^(-?)\./, '$10.').replace(/\.(?=$|[eE])/, '');
+            }
+            if (normalized !== raw) {
+                repairs.add('non-standard numbers');
+            }
+            out += normalized;
+            i += raw.length;
+            continue;
+        }
+
+        // Identifiers: unquoted keys and JavaScript literals
+        identPattern.lastIndex = i;
+        const identMatch = identPattern.exec(text);
+        if (identMatch) {
+            const ident = identMatch[0];
+            const next = skipTrivia(i + ident.length);
+            if (text[next] === ':') {
+                out += `"${ident}"`;
+                repairs.add('unquoted keys');
+            } else if (ident === 'undefined' || ident === 'NaN' || ident === 'Infinity') {
+                out += 'null';
+                repairs.add(`${ident} values`);
+            } else if (ident === 'True' || ident === 'False' || ident === 'None') {
+                out += ident === 'None' ? 'null' : ident.toLowerCase();
+                repairs.add('Python literals');
+            } else {
+                out += ident;
+            }
+            i += ident.length;
+            continue;
+        }
+
+        // -Infinity
+        if (ch === '-' && text.startsWith('Infinity', i + 1)) {
+            out += 'null';
+            repairs.add('Infinity values');
+            i += 'Infinity'.length + 1;
+            continue;
+        }
+
+        out += ch;
+        i++;
+    }
+
+    return { json: out.trim(), repairs: [...repairs] };
+}
+
+/**
+ * Split input containing several concatenated JSON documents (including newline-delimited JSON)
+ * into individual documents. Tracks string literals and comments so brackets inside them are ignored.
+ * Input holding a single document is returned as a one-element array.
+ */
+export function splitJsonDocuments(input: string): string[] {
+    const documents: string[] = [];
+    let depth = 0;
+    let start = -1;
+    let quote: string | undefined;
+    let i = 0;
+
+    while (i < input.length) {
+        const ch = input[i];
+
+        if (quote) {
+            if (ch === '\\') {
+                i += 2;
+                continue;
+            }
+            if (ch === quote) {
+                quote = undefined;
+            }
+            i++;
+            continue;
+        }
+
+        if (ch === '/' && input[i + 1] === '/') {
+            const end = input.indexOf('\n', i);
+            i = end === -1 ? input.length : end;
+            continue;
+        }
+        if (ch === '/' && input[i + 1] === '*') {
+            const end = input.indexOf('*/', i + 2);
+            i = end === -1 ? input.length : end + 2;
+            continue;
+        }
+
+        if (start === -1 && !/\s/.test(ch)) {
+            start = i;
+        }
+
+        if (ch === '"' || ch === '\'' || ch === '`') {
+            quote = ch;
+        } else if (ch === '{' || ch === '[') {
+            depth++;
+        } else if (ch === '}' || ch === ']') {
+            depth--;
+            if (depth === 0) {
+                // Include a trailing semicolon or comma separator in the document
+                let end = i + 1;
+                const separator = /^[ \t]*[;,]/.exec(input.slice(end, end + 64));
+                if (separator) {
+                    end += separator[0].length;
+                }
+                documents.push(input.slice(start, end).trim().replace(/,$/, ''));
+                start = -1;
+                i = end;
+                continue;
+            }
+        }
+        i++;
+    }
+
+    if (start !== -1) {
+        documents.push(input.slice(start).trim());
+    }
+
+    return documents.length > 0 ? documents : [input.trim()];
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { CollectionType, SerializationAttributes } from './converter';
+import { findProjectDirectory } from './namespace';
+import { findSerializableInsertion, serializableTypeNames } from './serializerContext';
+import { collectDeclaredTypes, DeclaredType } from './typeNames';
+
+/**
+ * Where to look for existing type names
+ */
+export type ExistingTypeScope = 'off' | 'document' | 'project';
+
+/**
+ * Maximum number of .cs files read when scanning a project
+ */
+const MAX_PROJECT_FILES = 2000;
+
+/**
+ * List the .cs files of the project containing the target (nearest .csproj, or the workspace folder),
+ * excluding bin/, obj/ and the target file itself
+ */
+async function findProjectFiles(targetUri: vscode.Uri): Promise<vscode.Uri[]> {
+    if (targetUri.scheme !== 'file') {
+        return [];
+    }
+    const projectDir = findProjectDirectory(targetUri.fsPath);
+    const base = projectDir ? vscode.Uri.file(projectDir) : vscode.workspace.getWorkspaceFolder(targetUri)?.uri;
+    if (!base) {
+        return [];
+    }
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(base, '**/*.cs'), '**/{bin,obj}/**', MAX_PROJECT_FILES);
+    return files.filter(file => file.toString() !== targetUri.toString());
+}
+
+/**
+ * Collect the types already declared where generated code will go.
+ * - `document`: types declared in the target document text (if any)
+ * - `project`: additionally every .cs file under the nearest .csproj (or the workspace folder),
+ *   excluding bin/ and obj/ and the target file itself
+ * Returns undefined when scanning is disabled.
+ */
+export async function scanExistingTypes(
+    config: vscode.WorkspaceConfiguration,
+    targetUri: vscode.Uri,
+    documentText?: string
+): Promise<Map<string, DeclaredType> | undefined> {
+    const scope = config.get<ExistingTypeScope>('existingTypeScan', 'document');
+    if (scope === 'off') {
+        return undefined;
+    }
+
+    const types = new Map<string, DeclaredType>();
+
+    if (scope === 'project') {
+        for (const file of await findProjectFiles(targetUri)) {
+            try {
+                const content = await vscode.workspace.fs.readFile(file);
+                collectDeclaredTypes(new TextDecoder().decode(content)).forEach((type, name) => types.set(name, type));
+            } catch {
+                // Skip files that can't be read
+            }
+        }
+    }
+
+    // The target document wins over its saved copy on disk
+    if (documentText) {
+        collectDeclaredTypes(documentText).forEach((type, name) => types.set(name, type));
+    }
+
+    return types;
+}
+
+/**
+ * Find an existing `JsonSerializerContext` to register generated types in when `generateSerializerContext`
+ * is enabled for System.Text.Json: the target document first, then (when `existingTypeScan` is `project`)
+ * the .cs files of the project.
+ */
+export async function findSerializerContext(
+    config: vscode.WorkspaceConfiguration,
+    serializationAttributes: SerializationAttributes | undefined,
+    targetUri: vscode.Uri,
+    documentText?: string
+): Promise<vscode.Uri | undefined> {
+    if (!config.get<boolean>('generateSerializerContext', false) || serializationAttributes !== 'SystemTextJson') {
+        return undefined;
+    }
+
+    const contextPattern = /partial\s+class\s+\w+\s*:\s*JsonSerializerContext\b/;
+    if (documentText && contextPattern.test(documentText)) {
+        return targetUri;
+    }
+
+    if (config.get<ExistingTypeScope>('existingTypeScan', 'document') === 'project') {
+        for (const file of await findProjectFiles(targetUri)) {
+            try {
+                const content = await vscode.workspace.fs.readFile(file);
+                if (contextPattern.test(new TextDecoder().decode(content))) {
+                    return file;
+                }
+            } catch {
+                // Skip files that can't be read
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Add `[JsonSerializable]` attributes for the root type (and its collection) to the context in `contextUri`.
+ * Files that had no unsaved changes are saved afterwards; the document being edited is left dirty.
+ */
+export async function registerSerializableTypes(
+    contextUri: vscode.Uri,
+    rootClassName: string,
+    config: vscode.WorkspaceConfiguration,
+    activeUri?: vscode.Uri
+): Promise<void> {
+    const typeNames = serializableTypeNames(rootClassName, config.get<CollectionType>('collectionType', 'IEnumerable'));
+    const document = await vscode.workspace.openTextDocument(contextUri);
+    const insertion = findSerializableInsertion(document.getText(), typeNames);
+    if (!insertion) {
+        return;
+    }
+
+    const wasDirty = document.isDirty;
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(contextUri, document.positionAt(insertion.offset), insertion.text);
+    await vscode.workspace.applyEdit(edit);
+
+    if (!wasDirty && contextUri.toString() !== activeUri?.toString()) {
+        await document.save();
+    }
+    vscode.window.setStatusBarMessage(`$(check) Registered ${rootClassName} in ${insertion.contextName}`, 5000);
+}